@@ -0,0 +1,267 @@
+/**
+ * Admin API for the server-side key registry.
+ *
+ * Routes (all require `Authorization: Bearer <ADMIN_TOKEN>`):
+ * - GET    /admin/keys                 List registered keys (metadata only)
+ * - POST   /admin/keys                 Register a new key
+ * - GET    /admin/keys/:keyid          Fetch a single key record
+ * - POST   /admin/keys/:keyid/rotate   Replace the key material for a keyid
+ * - DELETE /admin/keys/:keyid          Revoke a key
+ *
+ * The API is disabled unless both the KEYS binding and the ADMIN_TOKEN
+ * secret are configured.
+ */
+
+import type { Algorithm } from 'http-message-sig';
+import { createPublicKey, timingSafeEqual } from 'node:crypto';
+import { algorithmMap } from './config';
+import { REQUIRABLE_PARAMETERS, type CoverageRequirements } from './policy';
+import { getKey, listKeys, putKey, type KeyRecord } from './registry';
+import { normalizePem } from './utils';
+
+/**
+ * Longest keyid accepted, in UTF-8 bytes. The keyid is part of the KV key
+ * and of its metadata, and KV caps both (512 and 1024 bytes).
+ */
+const MAX_KEYID_BYTES = 256;
+
+/**
+ * Most component names a registration may require.
+ */
+const MAX_REQUIRED_COMPONENTS = 64;
+
+/**
+ * Body accepted when registering or rotating a key.
+ */
+interface KeyRegistration {
+	keyid?: string;
+	publicKey?: string;
+	algorithms?: string[];
+	required?: { components?: string[]; parameters?: string[] };
+	expiresAt?: number;
+}
+
+/**
+ * Route an /admin or /admin/* request to the matching handler.
+ *
+ * @param request - Incoming HTTP request (pathname is /admin or starts with /admin/)
+ * @param env - Environment bindings (KEYS namespace and ADMIN_TOKEN secret)
+ * @returns JSON response
+ */
+export async function handleAdminRequest(request: Request, env: Env): Promise<Response> {
+	if (!env.KEYS || !env.ADMIN_TOKEN) {
+		return Response.json({ error: 'Admin API disabled', message: 'Configure the KEYS binding and ADMIN_TOKEN secret' }, { status: 503 });
+	}
+
+	if (!isAuthorized(request, env.ADMIN_TOKEN)) {
+		return Response.json({ error: 'Unauthorized' }, { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+	}
+
+	const url = new URL(request.url);
+	let segments: string[];
+	try {
+		segments = url.pathname.split('/').map(decodeURIComponent);
+	} catch {
+		return Response.json({ error: 'Malformed percent-encoding in path' }, { status: 400 });
+	}
+	const [, , resource, keyid, action] = segments;
+
+	if (resource !== 'keys') {
+		return Response.json({ error: 'Not found' }, { status: 404 });
+	}
+
+	if (!keyid) {
+		if (request.method === 'GET') {
+			const limit = url.searchParams.has('limit') ? Number(url.searchParams.get('limit')) : undefined;
+			return Response.json(await listKeys(env.KEYS, { cursor: url.searchParams.get('cursor') ?? undefined, limit }));
+		}
+		if (request.method === 'POST') {
+			return registerKey(env.KEYS, await readRegistration(request));
+		}
+	} else if (!action) {
+		if (request.method === 'GET') {
+			const record = await getKey(env.KEYS, keyid);
+			return record ? Response.json(record) : Response.json({ error: `Unknown key: ${keyid}` }, { status: 404 });
+		}
+		if (request.method === 'DELETE') {
+			return revokeKey(env.KEYS, keyid);
+		}
+	} else if (action === 'rotate' && request.method === 'POST') {
+		return rotateKey(env.KEYS, keyid, await readRegistration(request));
+	}
+
+	return Response.json({ error: 'Method not allowed' }, { status: 405 });
+}
+
+/**
+ * Check the bearer token in constant time. Also guards GET /audit (see src/audit.ts).
+ */
+export function isAuthorized(request: Request, adminToken: string): boolean {
+	const header = request.headers.get('Authorization') ?? '';
+	const [scheme, token] = header.split(' ');
+	if (scheme !== 'Bearer' || !token) {
+		return false;
+	}
+
+	const expected = Buffer.from(adminToken);
+	const provided = Buffer.from(token);
+	return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+/**
+ * Read a registration body. Anything but a JSON object reads as an empty
+ * registration, which validation then rejects.
+ */
+async function readRegistration(request: Request): Promise<KeyRegistration> {
+	try {
+		const body = await request.json();
+		return body !== null && typeof body === 'object' && !Array.isArray(body) ? (body as KeyRegistration) : {};
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Whether a value is an array of strings.
+ */
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/**
+ * Validate the key material and metadata of a registration.
+ *
+ * @returns An error message, or null if the registration is valid
+ */
+function validateRegistration({ publicKey, algorithms, required, expiresAt }: KeyRegistration): string | null {
+	if (!publicKey) {
+		return 'Missing publicKey';
+	}
+	if (typeof publicKey !== 'string') {
+		return 'publicKey must be a PEM string';
+	}
+	try {
+		createPublicKey(normalizePem(publicKey));
+	} catch (err) {
+		return `Failed to parse public key: ${err instanceof Error ? err.message : String(err)}`;
+	}
+
+	if (algorithms !== undefined && !isStringArray(algorithms)) {
+		return 'algorithms must be an array of algorithm names';
+	}
+	if (algorithms && algorithms.length > Object.keys(algorithmMap).length) {
+		return `algorithms must list at most ${Object.keys(algorithmMap).length} algorithms`;
+	}
+	const unsupported = (algorithms ?? []).filter((alg) => !Object.hasOwn(algorithmMap, alg));
+	if (unsupported.length) {
+		return `Unsupported algorithms: ${unsupported.join(', ')}`;
+	}
+
+	if (required !== undefined && (required === null || typeof required !== 'object' || Array.isArray(required))) {
+		return 'required must be an object with components and / or parameters';
+	}
+	if (required?.components !== undefined && !isStringArray(required.components)) {
+		return 'required.components must be an array of component names';
+	}
+	if (required?.components && required.components.length > MAX_REQUIRED_COMPONENTS) {
+		return `required.components must list at most ${MAX_REQUIRED_COMPONENTS} components`;
+	}
+	if (required?.parameters !== undefined && !isStringArray(required.parameters)) {
+		return 'required.parameters must be an array of parameter names';
+	}
+	if (required?.parameters && required.parameters.length > REQUIRABLE_PARAMETERS.length) {
+		return `required.parameters must list at most ${REQUIRABLE_PARAMETERS.length} parameters`;
+	}
+	const unknownParameters = (required?.parameters ?? []).filter((name) => !(REQUIRABLE_PARAMETERS as readonly string[]).includes(name));
+	if (unknownParameters.length) {
+		return `Unsupported required parameters: ${unknownParameters.join(', ')}`;
+	}
+
+	if (expiresAt !== undefined && !Number.isInteger(expiresAt)) {
+		return 'expiresAt must be a Unix timestamp in seconds';
+	}
+	return null;
+}
+
+async function registerKey(kv: KVNamespace, registration: KeyRegistration): Promise<Response> {
+	const { keyid } = registration;
+	if (!keyid) {
+		return Response.json({ error: 'Missing keyid' }, { status: 400 });
+	}
+	if (typeof keyid !== 'string') {
+		return Response.json({ error: 'keyid must be a string' }, { status: 400 });
+	}
+	if (Buffer.byteLength(keyid) > MAX_KEYID_BYTES) {
+		return Response.json({ error: `keyid must be at most ${MAX_KEYID_BYTES} bytes` }, { status: 400 });
+	}
+
+	const error = validateRegistration(registration);
+	if (error) {
+		return Response.json({ error }, { status: 400 });
+	}
+
+	if (await getKey(kv, keyid)) {
+		return Response.json({ error: `Key already registered: ${keyid}` }, { status: 409 });
+	}
+
+	const record: KeyRecord = {
+		keyid,
+		publicKey: registration.publicKey!,
+		algorithms: (registration.algorithms ?? []) as Algorithm[],
+		required: registration.required as CoverageRequirements | undefined,
+		createdAt: Math.floor(Date.now() / 1000),
+		expiresAt: registration.expiresAt,
+	};
+	await putKey(kv, record);
+
+	return Response.json(record, { status: 201 });
+}
+
+/**
+ * Replace the key material of an existing, non-revoked key.
+ *
+ * Algorithms, coverage requirements and expiry carry over from the
+ * previous record unless the rotation request overrides them.
+ */
+async function rotateKey(kv: KVNamespace, keyid: string, registration: KeyRegistration): Promise<Response> {
+	const existing = await getKey(kv, keyid);
+	if (!existing) {
+		return Response.json({ error: `Unknown key: ${keyid}` }, { status: 404 });
+	}
+	if (existing.revokedAt !== undefined) {
+		return Response.json({ error: `Key revoked: ${keyid}` }, { status: 409 });
+	}
+
+	const error = validateRegistration(registration);
+	if (error) {
+		return Response.json({ error }, { status: 400 });
+	}
+
+	const record: KeyRecord = {
+		...existing,
+		publicKey: registration.publicKey!,
+		algorithms: (registration.algorithms ?? existing.algorithms) as Algorithm[],
+		required: (registration.required as CoverageRequirements | undefined) ?? existing.required,
+		expiresAt: registration.expiresAt ?? existing.expiresAt,
+		rotatedAt: Math.floor(Date.now() / 1000),
+	};
+	await putKey(kv, record);
+
+	return Response.json(record);
+}
+
+/**
+ * Revoke a key. The record is kept (with `revokedAt` set) so the keyid
+ * cannot be silently re-registered by someone else.
+ */
+async function revokeKey(kv: KVNamespace, keyid: string): Promise<Response> {
+	const existing = await getKey(kv, keyid);
+	if (!existing) {
+		return Response.json({ error: `Unknown key: ${keyid}` }, { status: 404 });
+	}
+
+	const record: KeyRecord = { ...existing, revokedAt: existing.revokedAt ?? Math.floor(Date.now() / 1000) };
+	await putKey(kv, record);
+
+	return Response.json(record);
+}
@@ -0,0 +1,300 @@
+/**
+ * Audit log of verification outcomes.
+ *
+ * With the AUDIT_DB D1 binding, every verification outcome is recorded, one
+ * row per signature: time, label, keyid, alg, covered components, whether it
+ * verified, the error code, the client IP and the key fingerprint. Keys are
+ * never stored: public keys are identified by their fingerprint (see
+ * keyFingerprint()), shared secrets by their keyid only.
+ *
+ * GET /audit (Authorization: Bearer <ADMIN_TOKEN>) queries the log, newest first:
+ *
+ *   GET /audit?verified=false&since=1735689600     Failures since a Unix time
+ *   GET /audit?keyid=client-1&limit=50&cursor=812  One key, page by page
+ *
+ * The table is created on first use, so binding an empty database is enough.
+ */
+
+import { isAuthorized } from './admin';
+import type { ErrorCode } from './errors';
+import type { VerificationResult } from './verification';
+
+/**
+ * Default and maximum number of entries per GET /audit page.
+ */
+export const DEFAULT_AUDIT_PAGE_SIZE = 100;
+export const MAX_AUDIT_PAGE_SIZE = 1000;
+
+/**
+ * One recorded verification outcome.
+ */
+export interface AuditEntry {
+	/** Increasing row id; also the pagination cursor */
+	id: number;
+	/** Unix time (seconds) of the verification */
+	timestamp: number;
+	label?: string;
+	keyid?: string;
+	alg?: string;
+	/** Covered component names */
+	components?: string[];
+	verified: boolean;
+	/** Failure reason (see src/errors.ts) */
+	code?: ErrorCode;
+	/** CF-Connecting-IP of the client that sent the request */
+	clientIp?: string;
+	/** SHA-256 fingerprint of the public key (see keyFingerprint()) */
+	keyFingerprint?: string;
+}
+
+/**
+ * Filters for GET /audit. Every filter given must match.
+ */
+export interface AuditQuery {
+	keyid?: string;
+	label?: string;
+	alg?: string;
+	code?: string;
+	clientIp?: string;
+	keyFingerprint?: string;
+	verified?: boolean;
+	/** Entries at or after this Unix time */
+	since?: number;
+	/** Entries before this Unix time */
+	until?: number;
+	/** Page size (default 100, at most 1000) */
+	limit?: number;
+	/** `cursor` of the previous page */
+	cursor?: number;
+}
+
+/**
+ * Records the outcome of one verification (one result per signature).
+ */
+export type AuditLogger = (results: VerificationResult[]) => void;
+
+/**
+ * Statements creating the table and its indexes, run before every access.
+ * Both are no-ops once the table exists.
+ */
+const SCHEMA = [
+	`CREATE TABLE IF NOT EXISTS audit_log (
+		id INTEGER PRIMARY KEY AUTOINCREMENT,
+		timestamp INTEGER NOT NULL,
+		label TEXT,
+		keyid TEXT,
+		alg TEXT,
+		components TEXT,
+		verified INTEGER NOT NULL,
+		code TEXT,
+		client_ip TEXT,
+		key_fingerprint TEXT
+	)`,
+	'CREATE INDEX IF NOT EXISTS audit_log_keyid ON audit_log (keyid, id)',
+	'CREATE INDEX IF NOT EXISTS audit_log_timestamp ON audit_log (timestamp)',
+];
+
+/**
+ * Columns for the equality filters of AuditQuery.
+ */
+const FILTER_COLUMNS = {
+	keyid: 'keyid',
+	label: 'label',
+	alg: 'alg',
+	code: 'code',
+	clientIp: 'client_ip',
+	keyFingerprint: 'key_fingerprint',
+} as const;
+
+/**
+ * A row of audit_log as returned by D1.
+ */
+interface AuditRow {
+	id: number;
+	timestamp: number;
+	label: string | null;
+	keyid: string | null;
+	alg: string | null;
+	components: string | null;
+	verified: number;
+	code: string | null;
+	client_ip: string | null;
+	key_fingerprint: string | null;
+}
+
+/**
+ * Build the audit logger for one incoming request.
+ *
+ * Entries are written after the response is sent (ctx.waitUntil); a failed
+ * write is logged and never affects the verification.
+ *
+ * @param request - The incoming request; its CF-Connecting-IP is recorded
+ * @returns undefined when AUDIT_DB is not bound (nothing is recorded)
+ */
+export function auditLogger(env: Env, ctx: ExecutionContext, request: Request): AuditLogger | undefined {
+	const db = env.AUDIT_DB;
+	if (!db) {
+		return undefined;
+	}
+	const clientIp = request.headers.get('cf-connecting-ip') ?? undefined;
+	return (results) => {
+		const timestamp = Math.floor(Date.now() / 1000);
+		ctx.waitUntil(
+			recordAudit(
+				db,
+				results.map(({ label, keyid, alg, components, verified, code, keyFingerprint }) => ({
+					timestamp,
+					label,
+					keyid,
+					alg,
+					components,
+					verified,
+					code,
+					clientIp,
+					keyFingerprint,
+				}))
+			).catch((err) => console.error('Failed to write audit log:', err))
+		);
+	};
+}
+
+/**
+ * Append entries to the audit log.
+ */
+export async function recordAudit(db: D1Database, entries: Omit<AuditEntry, 'id'>[]): Promise<void> {
+	const insert = db.prepare(
+		'INSERT INTO audit_log (timestamp, label, keyid, alg, components, verified, code, client_ip, key_fingerprint) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+	);
+	await db.batch([
+		...SCHEMA.map((sql) => db.prepare(sql)),
+		...entries.map((entry) =>
+			insert.bind(
+				entry.timestamp,
+				entry.label ?? null,
+				entry.keyid ?? null,
+				entry.alg ?? null,
+				entry.components ? JSON.stringify(entry.components) : null,
+				entry.verified ? 1 : 0,
+				entry.code ?? null,
+				entry.clientIp ?? null,
+				entry.keyFingerprint ?? null
+			)
+		),
+	]);
+}
+
+/**
+ * Query the audit log, newest first.
+ *
+ * @returns One page of entries, and the cursor of the next page if there is one
+ */
+export async function queryAudit(db: D1Database, query: AuditQuery = {}): Promise<{ entries: AuditEntry[]; cursor?: string }> {
+	const conditions: string[] = [];
+	const bindings: (string | number)[] = [];
+	for (const [name, column] of Object.entries(FILTER_COLUMNS)) {
+		const value = query[name as keyof typeof FILTER_COLUMNS];
+		if (value !== undefined) {
+			conditions.push(`${column} = ?`);
+			bindings.push(value);
+		}
+	}
+	if (query.verified !== undefined) {
+		conditions.push('verified = ?');
+		bindings.push(query.verified ? 1 : 0);
+	}
+	if (query.since !== undefined) {
+		conditions.push('timestamp >= ?');
+		bindings.push(query.since);
+	}
+	if (query.until !== undefined) {
+		conditions.push('timestamp < ?');
+		bindings.push(query.until);
+	}
+	if (query.cursor !== undefined) {
+		conditions.push('id < ?');
+		bindings.push(query.cursor);
+	}
+
+	// One extra row tells whether another page follows
+	const limit = Math.min(query.limit ?? DEFAULT_AUDIT_PAGE_SIZE, MAX_AUDIT_PAGE_SIZE);
+	const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+	const select = db.prepare(`SELECT * FROM audit_log ${where} ORDER BY id DESC LIMIT ?`).bind(...bindings, limit + 1);
+	const results = await db.batch<AuditRow>([...SCHEMA.map((sql) => db.prepare(sql)), select]);
+	const rows = results[results.length - 1].results;
+
+	const entries = rows.slice(0, limit).map(auditEntry);
+	return { entries, cursor: rows.length > limit ? String(entries[entries.length - 1].id) : undefined };
+}
+
+/**
+ * Handle GET /audit.
+ *
+ * Query parameters: keyid, label, alg, code, clientIp, keyFingerprint,
+ * verified (true / false), since / until (Unix seconds), limit, cursor.
+ *
+ * @param request - Incoming HTTP request
+ * @param env - Environment bindings (AUDIT_DB and ADMIN_TOKEN)
+ * @returns JSON `{ entries, cursor? }`
+ */
+export async function handleAuditRequest(request: Request, env: Env): Promise<Response> {
+	if (!env.AUDIT_DB || !env.ADMIN_TOKEN) {
+		return Response.json(
+			{ error: 'Audit log disabled', message: 'Configure the AUDIT_DB binding and ADMIN_TOKEN secret' },
+			{ status: 503 }
+		);
+	}
+
+	if (!isAuthorized(request, env.ADMIN_TOKEN)) {
+		return Response.json({ error: 'Unauthorized' }, { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+	}
+
+	if (request.method !== 'GET') {
+		return Response.json({ error: 'Method not allowed' }, { status: 405 });
+	}
+
+	const params = new URL(request.url).searchParams;
+	const query: AuditQuery = {};
+	for (const name of Object.keys(FILTER_COLUMNS) as (keyof typeof FILTER_COLUMNS)[]) {
+		query[name] = params.get(name) ?? undefined;
+	}
+
+	const verified = params.get('verified');
+	if (verified !== null && verified !== 'true' && verified !== 'false') {
+		return Response.json({ error: 'verified must be true or false' }, { status: 400 });
+	}
+	query.verified = verified === null ? undefined : verified === 'true';
+
+	for (const [name, min, max] of [
+		['since', 0, Number.MAX_SAFE_INTEGER],
+		['until', 0, Number.MAX_SAFE_INTEGER],
+		['limit', 1, MAX_AUDIT_PAGE_SIZE],
+		['cursor', 1, Number.MAX_SAFE_INTEGER],
+	] as const) {
+		const value = params.get(name);
+		if (value === null) {
+			continue;
+		}
+		const number = Number(value);
+		if (!/^\d+$/.test(value) || number < min || number > max) {
+			return Response.json({ error: `${name} must be an integer from ${min} to ${max}` }, { status: 400 });
+		}
+		query[name] = number;
+	}
+
+	return Response.json(await queryAudit(env.AUDIT_DB, query));
+}
+
+function auditEntry(row: AuditRow): AuditEntry {
+	return {
+		id: row.id,
+		timestamp: row.timestamp,
+		label: row.label ?? undefined,
+		keyid: row.keyid ?? undefined,
+		alg: row.alg ?? undefined,
+		components: row.components ? (JSON.parse(row.components) as string[]) : undefined,
+		verified: row.verified === 1,
+		code: (row.code as ErrorCode | null) ?? undefined,
+		clientIp: row.client_ip ?? undefined,
+		keyFingerprint: row.key_fingerprint ?? undefined,
+	};
+}
@@ -0,0 +1,316 @@
+/**
+ * X.509 certificates as signer keys.
+ *
+ * A bare public key proves possession of a private key, nothing more. A
+ * certificate binds the key to an identity (subject, subjectAltName) that a
+ * CA vouched for. Wherever a PEM public key is accepted, a PEM certificate -
+ * or a chain, leaf first, followed by intermediates - can be sent instead:
+ *
+ *   -----BEGIN CERTIFICATE-----   (leaf: the signer's key)
+ *   -----BEGIN CERTIFICATE-----   (intermediate CA, optional)
+ *
+ * The chain must lead to one of the CA certificates configured in
+ * TRUST_ANCHORS, and every certificate on the path must be within its
+ * validity period. The verified leaf's subject and subjectAltName are then
+ * reported with the signature.
+ *
+ * Certificate signatures are checked over the DER-encoded TBSCertificate
+ * here rather than with X509Certificate.verify(): the Workers runtime's
+ * node:crypto cannot expose EC public keys of certificates.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc5280.html
+ */
+
+import { createPublicKey, verify as cryptoVerify, X509Certificate, type KeyObject } from 'node:crypto';
+import { VerificationError } from './errors';
+import type { KeyResolver } from './verification';
+
+/**
+ * Maximum number of intermediates between a leaf and a trust anchor.
+ */
+const MAX_CHAIN_LENGTH = 5;
+
+/**
+ * Hash used by each supported certificate signature algorithm, by OID (null for Ed25519).
+ */
+const SIGNATURE_ALGORITHM_HASHES: Record<string, string | null> = {
+	'1.2.840.10045.4.3.2': 'sha256', // ecdsa-with-SHA256
+	'1.2.840.10045.4.3.3': 'sha384', // ecdsa-with-SHA384
+	'1.2.840.10045.4.3.4': 'sha512', // ecdsa-with-SHA512
+	'1.2.840.113549.1.1.11': 'sha256', // sha256WithRSAEncryption
+	'1.2.840.113549.1.1.12': 'sha384', // sha384WithRSAEncryption
+	'1.2.840.113549.1.1.13': 'sha512', // sha512WithRSAEncryption
+	'1.3.101.112': null, // Ed25519
+};
+
+/**
+ * Identity of a signer, taken from its verified certificate.
+ */
+export interface CertificateIdentity {
+	/** Subject distinguished name, e.g. "CN=client.example, O=Example" */
+	subject: string;
+	/** Subject alternative names, e.g. "DNS:client.example, URI:https://client.example/" */
+	subjectAltName?: string;
+	/** Issuer distinguished name of the leaf */
+	issuer: string;
+	serialNumber: string;
+	/** SHA-256 fingerprint of the leaf certificate */
+	fingerprint256: string;
+	/** End of the leaf's validity period (ISO 8601) */
+	notAfter: string;
+}
+
+/**
+ * Whether a PEM string holds certificates rather than a public key.
+ */
+export function isCertificatePem(pem: string): boolean {
+	return pem.includes('-----BEGIN CERTIFICATE-----');
+}
+
+/**
+ * Parse every certificate in a PEM bundle, in order.
+ *
+ * Accepts multi-line PEM as well as the single-line form used in headers
+ * (whitespace inside the base64 body is ignored).
+ *
+ * @throws Error if the text holds no certificate or a certificate cannot be parsed
+ */
+export function parseCertificates(pem: string): X509Certificate[] {
+	const bodies = [...pem.matchAll(/-----BEGIN CERTIFICATE-----([\s\S]*?)-----END CERTIFICATE-----/g)].map((match) => match[1]);
+	if (!bodies.length) {
+		throw new VerificationError('key_parse_error', 'Failed to parse certificate: no PEM certificate found');
+	}
+
+	return bodies.map((body) => {
+		try {
+			return new X509Certificate(Buffer.from(body.replace(/\s+/g, ''), 'base64'));
+		} catch (err) {
+			throw new VerificationError('key_parse_error', `Failed to parse certificate: ${err instanceof Error ? err.message : String(err)}`);
+		}
+	});
+}
+
+/**
+ * Get the public key of a certificate.
+ */
+export function certificatePublicKey(certificate: X509Certificate): KeyObject {
+	return createPublicKey({ key: certificateFields(certificate).spki, format: 'der', type: 'spki' });
+}
+
+/**
+ * Check that a certificate chain leads to a trust anchor.
+ *
+ * The path is built from the leaf (chain[0]) through the remaining
+ * certificates, which must be CA certificates, until a certificate is
+ * issued by a trust anchor. A leaf that is itself a trust anchor (a pinned
+ * certificate) is trusted as-is.
+ *
+ * @param chain - Leaf certificate, followed by intermediates in any order
+ * @param anchors - Trusted CA certificates
+ * @param now - Current time in Unix seconds
+ * @returns The identity of the leaf
+ * @throws VerificationError if a certificate is outside its validity period or no path to an anchor exists
+ */
+export function verifyCertificateChain(chain: X509Certificate[], anchors: X509Certificate[], now: number): CertificateIdentity {
+	const [leaf, ...intermediates] = chain;
+	const path = [leaf];
+	checkValidity(leaf, now);
+
+	let current = leaf;
+	while (!anchors.some((anchor) => anchor.raw.equals(current.raw))) {
+		const anchor = anchors.find((candidate) => isIssuedBy(current, candidate));
+		if (anchor) {
+			checkValidity(anchor, now);
+			break;
+		}
+
+		const issuer = intermediates.find((candidate) => candidate.ca && !path.includes(candidate) && isIssuedBy(current, candidate));
+		if (!issuer || path.length > MAX_CHAIN_LENGTH) {
+			throw new VerificationError('untrusted_certificate', `Certificate is not issued by a trust anchor: ${formatName(current.subject)}`, {
+				subject: formatName(current.subject),
+				issuer: formatName(current.issuer),
+			});
+		}
+		checkValidity(issuer, now);
+		path.push(issuer);
+		current = issuer;
+	}
+
+	return {
+		subject: formatName(leaf.subject),
+		subjectAltName: leaf.subjectAltName,
+		issuer: formatName(leaf.issuer),
+		serialNumber: leaf.serialNumber,
+		fingerprint256: leaf.fingerprint256,
+		notAfter: certificateFields(leaf).notAfter.toISOString(),
+	};
+}
+
+/**
+ * Build a KeyResolver for a PEM certificate chain supplied by the client.
+ *
+ * The chain is checked against the trust anchors for every signature; the
+ * leaf's public key verifies the signature and its identity is reported
+ * as `signer`.
+ *
+ * @param chainPem - Leaf certificate, optionally followed by intermediates
+ * @param trustAnchors - PEM bundle of trusted CA certificates (TRUST_ANCHORS)
+ * @param now - Current time in Unix seconds, for tests. Defaults to the system clock.
+ */
+export function certificateKeyResolver(chainPem: string, trustAnchors: string | undefined, now?: number): KeyResolver {
+	return async () => {
+		if (!trustAnchors) {
+			throw new VerificationError('untrusted_certificate', 'Certificates cannot be verified: no trust anchors configured (TRUST_ANCHORS)');
+		}
+		const chain = parseCertificates(chainPem);
+		const signer = verifyCertificateChain(chain, parseCertificates(trustAnchors), now ?? Math.floor(Date.now() / 1000));
+		return { key: certificatePublicKey(chain[0]), signer };
+	};
+}
+
+/**
+ * Reject a certificate outside its validity period.
+ *
+ * @throws VerificationError (certificate_expired, certificate_not_yet_valid)
+ */
+function checkValidity(certificate: X509Certificate, now: number): void {
+	const { notBefore, notAfter } = certificateFields(certificate);
+	if (now * 1000 > notAfter.getTime()) {
+		throw new VerificationError('certificate_expired', `Certificate expired: ${formatName(certificate.subject)}`, {
+			subject: formatName(certificate.subject),
+			notAfter: notAfter.toISOString(),
+		});
+	}
+	if (now * 1000 < notBefore.getTime()) {
+		throw new VerificationError('certificate_not_yet_valid', `Certificate not yet valid: ${formatName(certificate.subject)}`, {
+			subject: formatName(certificate.subject),
+			notBefore: notBefore.toISOString(),
+		});
+	}
+}
+
+/**
+ * Format a distinguished name on one line. X509Certificate separates
+ * attributes with newlines ("CN=client.example\nO=Example").
+ */
+function formatName(name: string): string {
+	return name.split('\n').join(', ');
+}
+
+/**
+ * Whether `issuer` issued `certificate`: names match and the issuer's key
+ * verifies the certificate signature.
+ */
+function isIssuedBy(certificate: X509Certificate, issuer: X509Certificate): boolean {
+	if (!certificate.checkIssued(issuer)) {
+		return false;
+	}
+
+	const { tbs, signatureAlgorithm, signature } = certificateFields(certificate);
+	const hash = SIGNATURE_ALGORITHM_HASHES[signatureAlgorithm];
+	if (hash === undefined) {
+		throw new VerificationError('untrusted_certificate', `Unsupported certificate signature algorithm: ${signatureAlgorithm}`);
+	}
+	return cryptoVerify(hash, tbs, certificatePublicKey(issuer), signature);
+}
+
+/**
+ * The DER fields of a certificate needed to check it.
+ *
+ *   Certificate ::= SEQUENCE { tbsCertificate, signatureAlgorithm, signatureValue BIT STRING }
+ *   TBSCertificate ::= SEQUENCE { [0] version, serialNumber, signature, issuer, validity, subject, subjectPublicKeyInfo, ... }
+ */
+function certificateFields(certificate: X509Certificate): {
+	tbs: Buffer;
+	signatureAlgorithm: string;
+	signature: Buffer;
+	spki: Buffer;
+	notBefore: Date;
+	notAfter: Date;
+} {
+	const der = certificate.raw;
+	const [tbs, algorithm, signature] = derChildren(der, derElement(der, 0));
+	const tbsFields = derChildren(der, tbs);
+	const [, , , validity, , spki] = der[tbsFields[0].start] === 0xa0 ? tbsFields.slice(1) : tbsFields;
+	const [notBefore, notAfter] = derChildren(der, validity);
+	const [oid] = derChildren(der, algorithm);
+
+	return {
+		tbs: der.subarray(tbs.start, tbs.end),
+		signatureAlgorithm: decodeOid(der.subarray(oid.contentStart, oid.end)),
+		// BIT STRING contents start with the number of unused bits (always 0 here)
+		signature: der.subarray(signature.contentStart + 1, signature.end),
+		spki: der.subarray(spki.start, spki.end),
+		notBefore: decodeTime(der, notBefore),
+		notAfter: decodeTime(der, notAfter),
+	};
+}
+
+/**
+ * A DER element: where it starts, where its contents start, and where it ends.
+ */
+interface DerElement {
+	start: number;
+	contentStart: number;
+	end: number;
+}
+
+/**
+ * Read the DER element at `offset`.
+ */
+function derElement(der: Buffer, offset: number): DerElement {
+	let length = der[offset + 1];
+	let contentStart = offset + 2;
+	if (length & 0x80) {
+		const lengthBytes = length & 0x7f;
+		length = der.readUIntBE(offset + 2, lengthBytes);
+		contentStart += lengthBytes;
+	}
+	if (contentStart + length > der.length) {
+		throw new VerificationError('key_parse_error', 'Failed to parse certificate: truncated DER');
+	}
+	return { start: offset, contentStart, end: contentStart + length };
+}
+
+/**
+ * Read the elements nested in a constructed DER element (SEQUENCE, [0], ...).
+ */
+function derChildren(der: Buffer, parent: DerElement): DerElement[] {
+	const children: DerElement[] = [];
+	for (let offset = parent.contentStart; offset < parent.end; offset = children[children.length - 1].end) {
+		children.push(derElement(der, offset));
+	}
+	return children;
+}
+
+/**
+ * Decode a DER OBJECT IDENTIFIER to dotted form, e.g. "1.3.101.112".
+ */
+function decodeOid(bytes: Buffer): string {
+	const arcs = [Math.floor(bytes[0] / 40), bytes[0] % 40];
+	let value = 0;
+	for (const byte of bytes.subarray(1)) {
+		value = value * 128 + (byte & 0x7f);
+		if (!(byte & 0x80)) {
+			arcs.push(value);
+			value = 0;
+		}
+	}
+	return arcs.join('.');
+}
+
+/**
+ * Decode a UTCTime (YYMMDDHHMMSSZ) or GeneralizedTime (YYYYMMDDHHMMSSZ).
+ */
+function decodeTime(der: Buffer, element: DerElement): Date {
+	let text = der.toString('latin1', element.contentStart, element.end);
+	if (der[element.start] === 0x17) {
+		// RFC 5280 4.1.2.5.1: two-digit years 50-99 are 19xx
+		text = (Number(text.slice(0, 2)) >= 50 ? '19' : '20') + text;
+	}
+	const [, year, month, day, hour, minute, second] = text.match(/^(\d{4})(\d\d)(\d\d)(\d\d)(\d\d)(\d\d)Z$/) ?? [];
+	if (!year) {
+		throw new VerificationError('key_parse_error', `Failed to parse certificate: unsupported time ${text}`);
+	}
+	return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+}
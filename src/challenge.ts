@@ -0,0 +1,105 @@
+/**
+ * Signature challenges: tell a client what to sign.
+ *
+ * An unsigned request, or one whose signature covers too little, is
+ * answered with 401 and an Accept-Signature header (RFC 9421 Section 5.1)
+ * built from the configured policy, so clients can sign again without
+ * reading the documentation:
+ *
+ *   Accept-Signature: sig1=("@method" "@authority" "content-digest");created;nonce;alg="ed25519"
+ *
+ * Parameters without a value ask the signer to include one (`created`,
+ * `nonce`, `keyid`, ...). `alg` gets a value only when a single algorithm is
+ * accepted; a header can request one algorithm per signature, not a choice.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9421.html#name-the-accept-signature-field
+ */
+
+import type { Algorithm } from 'http-message-sig';
+import type { ErrorCode } from './errors';
+import type { KeyPolicy } from './keys';
+import type { NoncePolicy } from './nonces';
+import { REQUIRABLE_PARAMETERS, type CoverageRequirements, type RequirableParameter, type TimestampPolicy } from './policy';
+
+/**
+ * Failures a client can fix by signing (again) as the challenge describes.
+ * They are answered with 401 and Accept-Signature instead of 400.
+ */
+export const CHALLENGE_CODES: ReadonlySet<ErrorCode> = new Set<ErrorCode>([
+	'missing_signature',
+	'missing_signature_input',
+	'insufficient_coverage',
+	'missing_created',
+	'missing_nonce',
+]);
+
+/**
+ * What an acceptable signature must look like.
+ */
+export interface SignatureChallenge {
+	/** Components the signature must cover */
+	components: string[];
+	/** Signature parameters the signature must carry */
+	parameters: RequirableParameter[];
+	/** Accepted algorithms, when restricted */
+	algorithms?: Algorithm[];
+}
+
+/**
+ * The policies a challenge is derived from.
+ */
+export interface ChallengePolicy {
+	required?: CoverageRequirements;
+	timestamps?: TimestampPolicy;
+	nonces?: NoncePolicy;
+	keyPolicy?: KeyPolicy;
+}
+
+/**
+ * Derive the challenge from the verification policies.
+ *
+ * - components and parameters: the coverage requirements
+ * - `created`: required when a maximum signature age is configured
+ * - `nonce`: required when every key must send one (per-key requirements
+ *   are not known before the keyid is)
+ * - `alg`: required when the accepted algorithms are restricted
+ */
+export function signatureChallenge({ required, timestamps, nonces, keyPolicy }: ChallengePolicy): SignatureChallenge {
+	const parameters = new Set(required?.parameters);
+	if (timestamps?.maxAge !== undefined) {
+		parameters.add('created');
+	}
+	if (nonces?.requiredFor === '*') {
+		parameters.add('nonce');
+	}
+	if (keyPolicy?.algorithms) {
+		parameters.add('alg');
+	}
+
+	return {
+		components: required?.components ?? [],
+		parameters: REQUIRABLE_PARAMETERS.filter((parameter) => parameters.has(parameter)),
+		algorithms: keyPolicy?.algorithms,
+	};
+}
+
+/**
+ * Serialize a challenge as an Accept-Signature header value.
+ *
+ * @param challenge - The challenge
+ * @param label - Label the client should sign under (default sig1)
+ */
+export function acceptSignature({ components, parameters, algorithms }: SignatureChallenge, label = 'sig1'): string {
+	const list = components.map((component) => sfString(component)).join(' ');
+	const params = parameters.map((parameter) =>
+		parameter === 'alg' && algorithms?.length === 1 ? `;alg=${sfString(algorithms[0])}` : `;${parameter}`
+	);
+	return `${label}=(${list})${params.join('')}`;
+}
+
+/**
+ * Serialize a Structured Field string (RFC 8941 Section 3.3.3).
+ */
+function sfString(value: string): string {
+	return `"${value.replace(/[\\"]/g, '\\$&')}"`;
+}
@@ -0,0 +1,61 @@
+/**
+ * Signature base debugging output.
+ *
+ * "Invalid signature" alone does not say whether the key, the algorithm or
+ * the signed content differs. In practice it is almost always the content:
+ * the signer and verifier built different signature bases. This module
+ * exposes the base the verifier built, so it can be diffed line by line
+ * against the signer's.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9421.html#name-creating-the-signature-base
+ */
+
+import type { Parameters } from 'http-message-sig';
+import { toSeconds } from './policy';
+
+/**
+ * What the verifier reconstructed for one signature.
+ */
+export interface SignatureDebug {
+	/** The exact signature base passed to the verify callback */
+	signatureBase: string;
+	/** The signature base split into lines, for diffing against the signer's base */
+	lines: string[];
+	/** Parsed Signature-Input parameters (timestamps as Unix seconds) */
+	parameters: Record<string, string | number>;
+	/** Covered component identifier → value, as reconstructed from the request */
+	components: Record<string, string>;
+}
+
+/**
+ * One signature base line: a component identifier (name plus optional
+ * component parameters) followed by ": " and the component value.
+ */
+const BASE_LINE = /^("[^"]*"(?:;[^;:\s"=]+(?:="[^"]*"|=[^;:\s]+)?)*): (.*)$/;
+
+/**
+ * Build the debugging view of a signature base.
+ *
+ * @param signatureBase - Signature base built by http-message-sig
+ * @param params - Parsed Signature-Input parameters
+ */
+export function signatureBaseDebug(signatureBase: string, params: Parameters): SignatureDebug {
+	const lines = signatureBase.split('\n');
+
+	const components: Record<string, string> = {};
+	for (const line of lines.slice(0, -1)) {
+		const match = line.match(BASE_LINE);
+		if (match) {
+			components[match[1]] = match[2];
+		}
+	}
+
+	const parameters: Record<string, string | number> = {};
+	for (const [name, value] of Object.entries(params)) {
+		if (value !== undefined) {
+			parameters[name] = value instanceof Date || typeof value === 'number' ? toSeconds(value) : String(value);
+		}
+	}
+
+	return { signatureBase, lines, parameters, components };
+}
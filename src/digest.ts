@@ -0,0 +1,84 @@
+/**
+ * Content-Digest (RFC 9530) verification.
+ *
+ * A signature covering `content-digest` only protects the header value, not
+ * the body itself: a valid signed header paired with a swapped body still
+ * verifies unless the digest is recomputed from the body that arrived.
+ *
+ * Content-Digest is a structured dictionary of algorithm → byte sequence:
+ *   Content-Digest: sha-256=:X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE=:
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9530.html
+ * @see https://www.rfc-editor.org/rfc/rfc9421.html#name-message-content
+ */
+
+import { createHash } from 'node:crypto';
+import { VerificationError } from './errors';
+
+/**
+ * RFC 9530 digest algorithm names mapped to Node.js hash names.
+ *
+ * Only the algorithms the RFC marks as "Active" are accepted; insecure
+ * legacy ones (md5, sha, ...) are not.
+ */
+export const digestAlgorithms: Record<string, string> = {
+	'sha-256': 'sha256',
+	'sha-512': 'sha512',
+};
+
+/**
+ * Parse a Content-Digest header into algorithm → base64 digest.
+ *
+ * Algorithm names are lowercased; entries that are not byte sequences are skipped.
+ */
+export function parseContentDigest(header: string): Map<string, string> {
+	const digests = new Map<string, string>();
+	for (const match of header.matchAll(/([A-Za-z0-9-]+)\s*=\s*:([A-Za-z0-9+/=]*):/g)) {
+		digests.set(match[1].toLowerCase(), match[2]);
+	}
+	return digests;
+}
+
+/**
+ * Compute the RFC 9530 digest of a body.
+ *
+ * @param algorithm - RFC 9530 algorithm name (sha-256 or sha-512)
+ * @param body - Message content
+ * @returns Base64-encoded digest
+ */
+export function computeDigest(algorithm: string, body: ArrayBuffer | Uint8Array): string {
+	return createHash(digestAlgorithms[algorithm]).update(new Uint8Array(body)).digest('base64');
+}
+
+/**
+ * Check a Content-Digest header against the body it describes.
+ *
+ * Every supported algorithm present in the header must match; unsupported
+ * algorithms are ignored, but at least one supported one is required.
+ *
+ * @param header - Content-Digest header value
+ * @param body - The received message content
+ * @throws VerificationError (unsupported_digest_algorithm) if no supported algorithm is present
+ * @throws VerificationError (content_digest_mismatch) with the expected and received digests
+ */
+export function checkContentDigest(header: string, body: ArrayBuffer | Uint8Array): void {
+	const digests = [...parseContentDigest(header)].filter(([algorithm]) => Object.hasOwn(digestAlgorithms, algorithm));
+	if (!digests.length) {
+		throw new VerificationError(
+			'unsupported_digest_algorithm',
+			`Content-Digest has no supported algorithm (supported: ${Object.keys(digestAlgorithms).join(', ')})`,
+			{ received: header }
+		);
+	}
+
+	for (const [algorithm, received] of digests) {
+		const expected = computeDigest(algorithm, body);
+		if (expected !== received) {
+			throw new VerificationError('content_digest_mismatch', `Content-Digest ${algorithm} does not match the request body`, {
+				algorithm,
+				expected: `${algorithm}=:${expected}:`,
+				received: `${algorithm}=:${received}:`,
+			});
+		}
+	}
+}
@@ -0,0 +1,257 @@
+/**
+ * Remote key directories (Web Bot Auth `Signature-Agent`).
+ *
+ * Automated clients (bots, agents) announce where their keys live with the
+ * Signature-Agent request header. The verifier fetches the JWKS published
+ * at that origin's /.well-known/http-message-signatures-directory and picks
+ * the key whose RFC 7638 thumbprint equals the signature's `keyid`:
+ *
+ *   Signature-Agent: "https://signature-agent.example"
+ *   Signature-Input: sig1=("@authority" "signature-agent");created=...;keyid="poqkLGiymh_W0uP6PZFw-dvez3QJT5SolqXBCW38r0U";tag="web-bot-auth"
+ *
+ * Fetching URLs named by the client is opt-in: directories are only fetched
+ * for origins listed in SIGNATURE_AGENTS (or any https origin with "*").
+ * Fetched directories are cached per isolate for SIGNATURE_AGENT_CACHE_TTL
+ * seconds and rejected above SIGNATURE_AGENT_MAX_BYTES.
+ *
+ * @see https://datatracker.ietf.org/doc/draft-meunier-web-bot-auth-architecture/
+ * @see https://datatracker.ietf.org/doc/draft-meunier-http-message-signatures-directory/
+ */
+
+import { HTTP_MESSAGE_SIGNATURES_DIRECTORY, MediaType, type Parameters } from 'http-message-sig';
+import type { JsonWebKey } from 'node:crypto';
+import { VerificationError } from './errors';
+import { parseJwks, resolveJwk, selectJwk } from './jwk';
+import { parseList, parseSeconds, splitDictionary } from './utils';
+import type { KeyResolver } from './verification';
+
+/**
+ * Default lifetime of a cached directory, in seconds.
+ */
+export const DEFAULT_DIRECTORY_TTL_SECONDS = 3600;
+
+/**
+ * Default maximum size of a directory response, in bytes.
+ */
+export const DEFAULT_DIRECTORY_MAX_BYTES = 64 * 1024;
+
+/**
+ * Maximum number of directories kept in the per-isolate cache.
+ */
+const MAX_CACHED_DIRECTORIES = 100;
+
+/**
+ * How long to wait for a directory before giving up, in milliseconds.
+ */
+const DIRECTORY_FETCH_TIMEOUT_MS = 5000;
+
+/**
+ * Which key directories may be fetched, and how they are cached.
+ */
+export interface DirectoryPolicy {
+	/** Origins whose directories may be fetched, or "*" for any https origin */
+	allowedAgents: '*' | string[];
+	/** Seconds to cache a fetched directory */
+	ttl: number;
+	/** Maximum directory response size in bytes */
+	maxBytes: number;
+}
+
+/**
+ * Build the directory policy from Env vars.
+ *
+ * @returns undefined when SIGNATURE_AGENTS is not set (Signature-Agent is ignored)
+ */
+export function directoryPolicyFromEnv(env: Env): DirectoryPolicy | undefined {
+	const agents = parseList(env.SIGNATURE_AGENTS ?? '');
+	if (!agents.length) {
+		return undefined;
+	}
+	const maxBytes = Number(env.SIGNATURE_AGENT_MAX_BYTES);
+	return {
+		allowedAgents: agents.includes('*') ? '*' : agents.map((agent) => (URL.canParse(agent) ? new URL(agent).origin : agent)),
+		ttl: parseSeconds(env.SIGNATURE_AGENT_CACHE_TTL) ?? DEFAULT_DIRECTORY_TTL_SECONDS,
+		maxBytes: Number.isInteger(maxBytes) && maxBytes > 0 ? maxBytes : DEFAULT_DIRECTORY_MAX_BYTES,
+	};
+}
+
+/**
+ * Fetched directories by URL. Module state lives as long as the isolate.
+ */
+const directoryCache = new Map<string, { keys: JsonWebKey[]; expiresAt: number }>();
+
+/**
+ * Read the Signature-Agent value that applies to a signature.
+ *
+ * The header is either a single string, applying to every signature, or a
+ * dictionary keyed by signature label:
+ *   Signature-Agent: "https://agent.example"
+ *   Signature-Agent: sig1="https://agent.example", sig2="https://proxy.example"
+ *
+ * @returns The agent URI, or undefined if none applies to `label`
+ */
+export function parseSignatureAgent(header: string, label?: string): string | undefined {
+	const value = header.trim().startsWith('"') ? header.trim() : label !== undefined ? splitDictionary(header).get(label)?.trim() : undefined;
+	const match = value?.match(/^"((?:[^"\\]|\\.)*)"/);
+	return match ? match[1].replace(/\\(.)/g, '$1') : undefined;
+}
+
+/**
+ * Resolve a Signature-Agent URI to its directory URL.
+ *
+ * An origin (https://agent.example) points at its well-known directory; a
+ * URI with a path is used as-is.
+ *
+ * @throws Error if the URI is not https or its origin is not allowed
+ */
+export function directoryUrl(agent: string, policy: DirectoryPolicy): string {
+	if (!URL.canParse(agent) || new URL(agent).protocol !== 'https:') {
+		throw new VerificationError('key_directory_error', `Signature-Agent must be an https URL: ${agent}`);
+	}
+
+	const url = new URL(agent);
+	if (policy.allowedAgents !== '*' && !policy.allowedAgents.includes(url.origin)) {
+		throw new VerificationError('key_directory_error', `Signature-Agent not allowed: ${url.origin}`);
+	}
+	if (url.pathname === '/') {
+		url.pathname = HTTP_MESSAGE_SIGNATURES_DIRECTORY;
+	}
+	return url.toString();
+}
+
+/**
+ * Fetch (or read from cache) the keys of a directory.
+ *
+ * @param url - Directory URL (see directoryUrl())
+ * @param policy - Cache lifetime and size limit
+ * @param fetcher - fetch implementation (for tests and service bindings)
+ * @throws Error if the directory cannot be fetched, is too large or is not a JWKS
+ */
+export async function fetchDirectory(url: string, policy: DirectoryPolicy, fetcher: typeof fetch = fetch): Promise<JsonWebKey[]> {
+	const cached = directoryCache.get(url);
+	if (cached && cached.expiresAt > Date.now()) {
+		return cached.keys;
+	}
+
+	let response: Response;
+	try {
+		response = await fetcher(url, {
+			headers: { accept: `${MediaType.HTTP_MESSAGE_SIGNATURES_DIRECTORY}, application/json` },
+			// A redirect could lead to an origin outside SIGNATURE_AGENTS
+			redirect: 'manual',
+			signal: AbortSignal.timeout(DIRECTORY_FETCH_TIMEOUT_MS),
+		});
+	} catch (err) {
+		// Network and DNS failures, and DIRECTORY_FETCH_TIMEOUT_MS running out
+		throw new VerificationError(
+			'key_directory_error',
+			`Failed to fetch key directory ${url}: ${err instanceof Error ? err.message : String(err)}`
+		);
+	}
+	if (!response.ok) {
+		throw new VerificationError('key_directory_error', `Failed to fetch key directory ${url}: HTTP ${response.status}`);
+	}
+	if (Number(response.headers.get('content-length') ?? 0) > policy.maxBytes) {
+		throw new VerificationError('key_directory_error', `Key directory ${url} exceeds ${policy.maxBytes} bytes`);
+	}
+	let bytes: Uint8Array | undefined;
+	try {
+		bytes = await readLimited(response, policy.maxBytes);
+	} catch (err) {
+		throw new VerificationError(
+			'key_directory_error',
+			`Failed to fetch key directory ${url}: ${err instanceof Error ? err.message : String(err)}`
+		);
+	}
+	if (!bytes) {
+		throw new VerificationError('key_directory_error', `Key directory ${url} exceeds ${policy.maxBytes} bytes`);
+	}
+	const body = new TextDecoder().decode(bytes);
+
+	let directory: { keys: JsonWebKey[]; set: boolean };
+	try {
+		directory = parseJwks(body);
+	} catch (err) {
+		throw new VerificationError('key_directory_error', `Key directory ${url} is not a JWKS: ${err instanceof Error ? err.message : String(err)}`);
+	}
+	if (!directory.set) {
+		throw new VerificationError('key_directory_error', `Key directory ${url} is not a JWKS: missing "keys"`);
+	}
+
+	directoryCache.delete(url);
+	if (directoryCache.size >= MAX_CACHED_DIRECTORIES) {
+		directoryCache.delete(directoryCache.keys().next().value!);
+	}
+	directoryCache.set(url, { keys: directory.keys, expiresAt: Date.now() + policy.ttl * 1000 });
+	return directory.keys;
+}
+
+/**
+ * Read a response body, but no more than `maxBytes` of it.
+ *
+ * Content-Length may be missing or wrong, so the body is read chunk by
+ * chunk and the stream is cancelled as soon as it grows past the limit.
+ *
+ * @returns The body, or undefined if it is larger than `maxBytes`
+ */
+async function readLimited(response: Response, maxBytes: number): Promise<Uint8Array | undefined> {
+	if (!response.body) {
+		return new Uint8Array();
+	}
+	const reader = response.body.getReader();
+	const chunks: Uint8Array[] = [];
+	let size = 0;
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) {
+			return Buffer.concat(chunks);
+		}
+		size += value.byteLength;
+		if (size > maxBytes) {
+			await reader.cancel();
+			return undefined;
+		}
+		chunks.push(value);
+	}
+}
+
+/**
+ * Build a KeyResolver that looks keys up in the directory named by the
+ * request's Signature-Agent header.
+ *
+ * Signatures with no applicable Signature-Agent are handed to `fallback`.
+ * Signatures verified with a directory key must cover `signature-agent`,
+ * so the header cannot be swapped for another directory.
+ *
+ * @param request - The signed request or response (its Signature-Agent header is read)
+ * @param policy - Allowed agents and cache limits
+ * @param fallback - Resolver for signatures without a Signature-Agent
+ * @param fetcher - fetch implementation (for tests and service bindings)
+ */
+export function signatureAgentResolver(request: Request | Response, policy: DirectoryPolicy, fallback?: KeyResolver, fetcher?: typeof fetch): KeyResolver {
+	const header = request.headers.get('signature-agent');
+
+	return async (params: Parameters, label?: string) => {
+		const agent = header === null ? undefined : parseSignatureAgent(header, label);
+		if (agent === undefined) {
+			if (fallback) {
+				return fallback(params, label);
+			}
+			throw new VerificationError('key_directory_error', `No Signature-Agent applies to signature ${label}`);
+		}
+
+		const url = directoryUrl(agent, policy);
+		const keys = await fetchDirectory(url, policy, fetcher);
+		if (!params.keyid) {
+			throw new VerificationError('missing_keyid', 'Missing keyid parameter: a key directory requires keyid in Signature-Input');
+		}
+
+		let jwk: JsonWebKey;
+		try {
+			jwk = selectJwk(keys, params.keyid);
+		} catch {
+			throw new VerificationError('unknown_key', `No key in the key directory ${url} matches keyid ${params.keyid}`);
+		}
+		return { ...resolveJwk(jwk, params), required: { components: ['signature-agent'] } };
+	};
+}
@@ -0,0 +1,54 @@
+/**
+ * Optional bindings and secrets.
+ *
+ * These are not declared in wrangler.jsonc by default (KV namespaces need an
+ * account-specific id, secrets are set with `wrangler secret put`), so
+ * `wrangler types` does not generate them. Features check for their binding
+ * before using it and stay disabled when it is missing.
+ */
+interface Env {
+	/** Server-side key registry (see src/registry.ts) */
+	KEYS?: KVNamespace;
+	/** Bearer token protecting the /admin API and GET /audit */
+	ADMIN_TOKEN?: string;
+	/** JSON object mapping keyid to a base64 hmac-sha256 shared secret (see src/secrets.ts) */
+	HMAC_SECRETS?: string;
+	/** Maximum signature age in seconds, measured from `created` (default: unlimited, see src/policy.ts) */
+	SIGNATURE_MAX_AGE?: string;
+	/** Comma-separated component names every signature must cover, e.g. "@method,@authority" (see src/policy.ts) */
+	REQUIRED_COMPONENTS?: string;
+	/** Comma-separated signature parameters every signature must carry, e.g. "created,keyid" */
+	REQUIRED_PARAMETERS?: string;
+	/** Comma-separated keyids that must send a nonce, or "*" for all (see src/nonces.ts) */
+	NONCE_REQUIRED_KEYS?: string;
+	/** Seconds to remember nonces of signatures without an expiry bound (default 86400) */
+	NONCE_TTL?: string;
+	/** Comma-separated origins whose Signature-Agent key directories may be fetched, or "*" (see src/directory.ts) */
+	SIGNATURE_AGENTS?: string;
+	/** Seconds to cache a fetched key directory (default 3600) */
+	SIGNATURE_AGENT_CACHE_TTL?: string;
+	/** Maximum key directory size in bytes (default 65536) */
+	SIGNATURE_AGENT_MAX_BYTES?: string;
+	/** PEM CA certificates that signer certificate chains must lead to (see src/certificates.ts) */
+	TRUST_ANCHORS?: string;
+	/** Smallest RSA modulus accepted, in bits (default 2048, see src/keys.ts) */
+	MIN_RSA_KEY_BITS?: string;
+	/** "true" to infer a missing `alg` from the key type */
+	INFER_ALGORITHM?: string;
+	/** Comma-separated algorithms to accept, e.g. "ed25519,ecdsa-p256-sha256" (default: all supported) */
+	SIGNATURE_ALGORITHMS?: string;
+	/** Base URL to forward verified requests to; enables reverse-proxy mode (see src/proxy.ts) */
+	UPSTREAM_URL?: string;
+	/** Service binding to forward verified requests to, instead of UPSTREAM_URL */
+	UPSTREAM?: Fetcher;
+	/** "true" to forward Signature, Signature-Input and Signature-Agent to the upstream (default: stripped) */
+	FORWARD_SIGNATURE_HEADERS?: string;
+	/** Audit log of verification outcomes (see src/audit.ts) */
+	AUDIT_DB?: D1Database;
+	/** Verification requests per client IP, as "capacity/seconds", e.g. "60/60" (see src/ratelimit.ts) */
+	IP_RATE_LIMIT?: string;
+	/** Verification requests per keyid named in Signature-Input, as "capacity/seconds" */
+	KEYID_RATE_LIMIT?: string;
+	/** "strict" for minimal verification responses, with the details logged instead (default "demo", see src/profile.ts) */
+	RESPONSE_PROFILE?: string;
+}
@@ -0,0 +1,214 @@
+/**
+ * Error codes for signature verification failures.
+ *
+ * Messages are meant for humans and may change; codes are stable and meant
+ * for clients that need to react to a specific failure (e.g. re-sign with a
+ * fresh `created` timestamp). Every failed VerificationResult carries one.
+ *
+ * Clients that send `Accept: application/problem+json` get failures as RFC
+ * 9457 problem details, with the code in the problem `type`.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9457.html
+ */
+
+/**
+ * Machine-readable reason a signature was rejected.
+ *
+ * Message:
+ * - missing_signature: the request has no Signature header
+ * - missing_signature_input: the request has no Signature-Input header
+ * - malformed_signature: the Signature header cannot be parsed
+ * - malformed_signature_input: the Signature-Input header or a covered component cannot be parsed
+ * - label_not_found: the selected label is missing from Signature or Signature-Input
+ *
+ * Key:
+ * - missing_keyid: the key source needs a `keyid` parameter but there is none
+ * - unknown_key: no key matches the `keyid`
+ * - key_revoked: the registered key was revoked
+ * - key_expired: the registered key is past its expiry date
+ * - key_parse_error: the key (PEM, JWK, certificate or shared secret) cannot be parsed
+ * - key_directory_error: the Signature-Agent key directory is not allowed or cannot be fetched
+ *
+ * Algorithm and signature:
+ * - unsupported_algorithm: `alg` is missing (and the key does not imply one) or not supported
+ * - algorithm_key_mismatch: the key cannot be used with `alg` (key type or curve)
+ * - weak_key: the RSA key is smaller than the configured minimum
+ * - invalid_signature: the signature does not match the signature base
+ * - verification_failed: any other failure
+ *
+ * Policy:
+ * - signature_expired: `expires` is in the past
+ * - signature_not_yet_valid: `created` is further in the future than the allowed clock skew
+ * - signature_too_old: `created` is older than the configured maximum age
+ * - missing_created: a maximum age is configured but the signature has no `created` parameter
+ * - missing_nonce: the key is required to send a `nonce` parameter but did not
+ * - nonce_replayed: the `nonce` was already used by an earlier request
+ * - insufficient_coverage: required components or parameters are not covered by the signature
+ * - content_digest_mismatch: `content-digest` is covered but does not match the body
+ * - unsupported_digest_algorithm: `content-digest` is covered but uses no supported algorithm
+ *
+ * Certificates:
+ * - certificate_expired: a certificate of the signer's chain is past its notAfter date
+ * - certificate_not_yet_valid: a certificate of the signer's chain is before its notBefore date
+ * - untrusted_certificate: the signer's certificate chain does not lead to a configured trust anchor
+ */
+export type VerificationErrorCode =
+	| 'missing_signature'
+	| 'missing_signature_input'
+	| 'malformed_signature'
+	| 'malformed_signature_input'
+	| 'label_not_found'
+	| 'missing_keyid'
+	| 'unknown_key'
+	| 'key_revoked'
+	| 'key_expired'
+	| 'key_parse_error'
+	| 'key_directory_error'
+	| 'unsupported_algorithm'
+	| 'algorithm_key_mismatch'
+	| 'weak_key'
+	| 'invalid_signature'
+	| 'verification_failed'
+	| 'signature_expired'
+	| 'signature_not_yet_valid'
+	| 'signature_too_old'
+	| 'missing_created'
+	| 'missing_nonce'
+	| 'nonce_replayed'
+	| 'insufficient_coverage'
+	| 'content_digest_mismatch'
+	| 'unsupported_digest_algorithm'
+	| 'certificate_expired'
+	| 'certificate_not_yet_valid'
+	| 'untrusted_certificate';
+
+/**
+ * Machine-readable reason a verification request was rejected before any
+ * signature was checked.
+ *
+ * - no_key_source: header keys are disabled and no server-side key storage is configured
+ * - invalid_upstream_url: UPSTREAM_URL is set but is not an absolute http(s) URL (see src/proxy.ts)
+ * - missing_key: no key header was sent and no server-side key storage is configured
+ * - invalid_request: a request parameter (e.g. the signature policy) is invalid
+ * - rate_limited: the client IP or a keyid ran out of verification attempts (see src/ratelimit.ts)
+ */
+export type RequestErrorCode = 'no_key_source' | 'invalid_upstream_url' | 'missing_key' | 'invalid_request' | 'rate_limited';
+
+export type ErrorCode = VerificationErrorCode | RequestErrorCode;
+
+/**
+ * Short, fixed summary of each code: the RFC 9457 problem `title`.
+ */
+export const errorTitles: Record<ErrorCode, string> = {
+	missing_signature: 'Missing Signature header',
+	missing_signature_input: 'Missing Signature-Input header',
+	malformed_signature: 'Malformed Signature header',
+	malformed_signature_input: 'Malformed Signature-Input header',
+	label_not_found: 'Signature label not found',
+	missing_keyid: 'Missing keyid parameter',
+	unknown_key: 'Unknown key',
+	key_revoked: 'Key revoked',
+	key_expired: 'Key expired',
+	key_parse_error: 'Key cannot be parsed',
+	key_directory_error: 'Key directory unavailable',
+	unsupported_algorithm: 'Unsupported or missing algorithm',
+	algorithm_key_mismatch: 'Algorithm does not fit the key',
+	weak_key: 'Key too weak',
+	invalid_signature: 'Invalid signature',
+	verification_failed: 'Signature verification failed',
+	signature_expired: 'Signature expired',
+	signature_not_yet_valid: 'Signature not yet valid',
+	signature_too_old: 'Signature too old',
+	missing_created: 'Missing created parameter',
+	missing_nonce: 'Missing nonce parameter',
+	nonce_replayed: 'Nonce already used',
+	insufficient_coverage: 'Insufficient signature coverage',
+	content_digest_mismatch: 'Content-Digest mismatch',
+	unsupported_digest_algorithm: 'Unsupported digest algorithm',
+	certificate_expired: 'Certificate expired',
+	certificate_not_yet_valid: 'Certificate not yet valid',
+	untrusted_certificate: 'Untrusted certificate',
+	no_key_source: 'No key source configured',
+	invalid_upstream_url: 'Invalid UPSTREAM_URL',
+	missing_key: 'Missing key',
+	invalid_request: 'Invalid request',
+	rate_limited: 'Too many requests',
+};
+
+/**
+ * Prefix of problem `type` URIs; the code is appended. Tag URIs (RFC 4151)
+ * identify the problem type without pretending to be a documentation URL.
+ */
+export const PROBLEM_TYPE_PREFIX = 'tag:http-message-signatures-demo,2025:';
+
+/**
+ * Errors thrown by http-message-sig while parsing the message, by message.
+ */
+const LIBRARY_ERROR_CODES: [RegExp, VerificationErrorCode][] = [
+	[/^Message does not contain Signature header$/, 'missing_signature'],
+	[/^Message does not contain Signature-Input header$/, 'missing_signature_input'],
+	[/^Invalid Signature header/, 'malformed_signature'],
+	[/^Signature expired$/, 'signature_expired'],
+	[
+		/^Invalid Signature-Input header|^Failed to parse (component|parameter)|^created should happen before expires$|^Unknown specialty component|is not implemented yet$|is only valid for|^`req` component parameter|^Multiple signatures/,
+		'malformed_signature_input',
+	],
+];
+
+/**
+ * A verification failure with a known cause.
+ *
+ * Thrown inside the verification callback and turned into
+ * `{ verified: false, error, code, details }` by verifySignature().
+ * `details` carries structured context for the client, e.g. which
+ * required components were missing.
+ */
+export class VerificationError extends Error {
+	constructor(
+		readonly code: VerificationErrorCode,
+		message: string,
+		readonly details?: Record<string, unknown>
+	) {
+		super(message);
+		this.name = 'VerificationError';
+	}
+}
+
+/**
+ * Get the code for an error thrown during verification.
+ *
+ * VerificationErrors carry their code; errors from http-message-sig are
+ * recognized by message. Anything else is `verification_failed`.
+ */
+export function errorCode(error: unknown): VerificationErrorCode {
+	if (error instanceof VerificationError) {
+		return error.code;
+	}
+	const message = error instanceof Error ? error.message : String(error);
+	return LIBRARY_ERROR_CODES.find(([pattern]) => pattern.test(message))?.[1] ?? 'verification_failed';
+}
+
+/**
+ * Whether the client asked for RFC 9457 problem details.
+ */
+export function acceptsProblemJson(request: Request): boolean {
+	return (request.headers.get('accept') ?? '').toLowerCase().includes('application/problem+json');
+}
+
+/**
+ * Build an RFC 9457 `application/problem+json` response.
+ *
+ *   {"type": "tag:http-message-signatures-demo,2025:invalid_signature", "title": "Invalid signature",
+ *    "status": 400, "detail": "Invalid signature", "code": "invalid_signature", ...}
+ *
+ * @param status - HTTP status code
+ * @param code - Error code; it selects the problem type and title
+ * @param detail - Human-readable explanation of this occurrence
+ * @param extensions - Extra members (e.g. details, signatures)
+ */
+export function problemResponse(status: number, code: ErrorCode, detail: string, extensions: Record<string, unknown> = {}): Response {
+	return Response.json(
+		{ type: `${PROBLEM_TYPE_PREFIX}${code}`, title: errorTitles[code], status, detail, code, ...extensions },
+		{ status, headers: { 'content-type': 'application/problem+json' } }
+	);
+}
@@ -11,15 +11,16 @@
  * - Anyone can provide their own key pair and sign requests
  * - No identity verification or key ownership validation
  * - No key registration, rotation, or revocation mechanism
- * - Information disclosure (echoes keys and signatures in responses)
+ * - Information disclosure (echoes keys and signatures in responses, unless RESPONSE_PROFILE=strict)
  *
  * PRODUCTION REQUIREMENTS:
  * - Store public keys server-side (key-value store, database, environment variables)
  * - Implement key registration and authentication
  * - Validate key ownership and permissions
- * - Add rate limiting and abuse prevention
- * - Implement audit logging
- * - Use nonces to prevent replay attacks
+ * - Add rate limiting and abuse prevention (IP_RATE_LIMIT / KEYID_RATE_LIMIT, see src/ratelimit.ts)
+ * - Enable audit logging (AUDIT_DB, see src/audit.ts)
+ * - Return minimal responses (RESPONSE_PROFILE=strict, see src/profile.ts)
+ * - Require nonces to prevent replay attacks (NONCE_REQUIRED_KEYS)
  * - Validate timestamps and expiration
  *
  * For production guidance, see: README.md#production-alternatives
@@ -28,8 +29,779 @@
  * @see https://github.com/cloudflare/web-bot-auth/tree/main/packages/http-message-sig - Signing library
  */
 
+import { handleAdminRequest } from './admin';
+import { auditLogger, handleAuditRequest, type AuditLogger } from './audit';
+import { acceptSignature, CHALLENGE_CODES, signatureChallenge, type SignatureChallenge } from './challenge';
 import { keyGenerationCommands } from './config';
-import { verifySignature } from './verification';
+import { directoryPolicyFromEnv, signatureAgentResolver } from './directory';
+import { acceptsProblemJson, problemResponse, VerificationError, type ErrorCode } from './errors';
+import { jwkKeyResolver } from './jwk';
+import { keyPolicyFromEnv } from './keys';
+import { verifiedSignatures, withSignatureVerification } from './middleware';
+import {
+	describedRequest,
+	describedResponse,
+	harRequest,
+	isHar,
+	parseRawRequest,
+	parseRawResponse,
+	type MessageDescription,
+	type ResponseDescription,
+} from './messages';
+import { noncePolicyFromEnv, nonceReplayGuard } from './nonces';
+import { coverageRequirementsFromEnv, timestampPolicyFromEnv } from './policy';
+import { logOutcome, responseProfileFromEnv, strictResponse } from './profile';
+import { forwardRequest, proxyConfigFromEnv, type ProxyConfig } from './proxy';
+import { requestLimiter, type RequestLimiter } from './ratelimit';
+import { registryKeyResolver } from './registry';
+import { secretStoreResolver, sharedSecretResolver } from './secrets';
+import { handleSignRequest } from './signing';
+import { renderUi } from './ui';
+import { parseFlag, parseList } from './utils';
+import {
+	verifySignatures,
+	type KeyResolver,
+	type SignaturePolicy,
+	type SignedMessage,
+	type SignedResponse,
+	type VerificationResult,
+} from './verification';
+
+export { NonceStore } from './nonces';
+export { RateLimiter } from './ratelimit';
+
+/**
+ * Build the resolver for server-side keys.
+ *
+ * When SIGNATURE_AGENTS is configured and the request names a key
+ * directory with Signature-Agent, keys come from that directory (see
+ * src/directory.ts). Otherwise HMAC_SECRETS (shared secrets) is consulted
+ * first, then the KEYS registry (public keys). Returns undefined when
+ * nothing is configured.
+ */
+function serverKeyResolver(env: Env, message: Request | Response): KeyResolver | undefined {
+	const registry = env.KEYS ? registryKeyResolver(env.KEYS) : undefined;
+	const stored = env.HMAC_SECRETS ? secretStoreResolver(env.HMAC_SECRETS, registry) : registry;
+	const directories = directoryPolicyFromEnv(env);
+	return directories && message.headers.has('signature-agent') ? signatureAgentResolver(message, directories, stored) : stored;
+}
+
+/**
+ * Keys supplied by the client (demo mode only, see ALLOW_HEADER_KEYS).
+ */
+interface ClientKeys {
+	pemKey: string | null;
+	/** JWK or JWKS, as JSON text */
+	jwk: string | null;
+	hmacSecret: string | null;
+}
+
+/**
+ * Body accepted by POST /verify/message.
+ */
+interface MessageVerificationBody {
+	/** The request to verify, as method / url / headers / body */
+	request?: MessageDescription;
+	/** Or the request as raw HTTP/1.1 text */
+	raw?: string;
+	/** PEM public key (like the x-public-key-pem header), or a JWK / JWKS object (like x-public-key-jwk) */
+	publicKey?: string | object;
+	/** Base64 shared secret (like the x-hmac-secret header) */
+	hmacSecret?: string;
+}
+
+/**
+ * Body accepted by POST /verify/response.
+ */
+interface ResponseVerificationBody {
+	/** The signed response, as status / headers / body */
+	response?: ResponseDescription;
+	/** Or the response as raw HTTP/1.1 text */
+	rawResponse?: string;
+	/** The request it answers (needed for `;req` components), as method / url / headers / body */
+	request?: MessageDescription;
+	/** Or the request as raw HTTP/1.1 text */
+	rawRequest?: string;
+	/** PEM public key, or a JWK / JWKS object (as in MessageVerificationBody) */
+	publicKey?: string | object;
+	/** Base64 shared secret */
+	hmacSecret?: string;
+}
+
+/**
+ * Most requests accepted by one POST /verify/batch. Each entry is charged
+ * against the rate limits like a request of its own (see src/ratelimit.ts).
+ */
+const MAX_BATCH_SIZE = 1000;
+
+/**
+ * Result for one request of POST /verify/batch.
+ */
+interface BatchResult {
+	/** Position of the request in the batch */
+	index: number;
+	method?: string;
+	url?: string;
+	verified: boolean;
+	/**
+	 * Why the request was not verified at all: it could not be rebuilt (invalid_request),
+	 * has no key (missing_key) or has a key of the wrong type (key_parse_error)
+	 */
+	error?: string;
+	code?: ErrorCode;
+	policy?: SignaturePolicy;
+	/** Per-label results, as for a single request */
+	signatures?: VerificationResult[];
+}
+
+/**
+ * Verify a request that was captured elsewhere and described in the body
+ * of POST /verify/message.
+ *
+ * The described request is rebuilt with its original method, target URI,
+ * headers and body (see src/messages.ts) and verified like a live request.
+ * Selectors (?label, ?policy, ?debug) are read from this route's URL, so
+ * they never collide with the query of the described request.
+ */
+async function verifyMessage(request: Request, env: Env, url: URL, audit?: AuditLogger, limiter?: RequestLimiter): Promise<Response> {
+	if (request.method !== 'POST') {
+		return Response.json({ error: 'Method not allowed' }, { status: 405 });
+	}
+
+	let body: MessageVerificationBody;
+	try {
+		body = (await request.json()) as MessageVerificationBody;
+	} catch {
+		return Response.json({ error: 'Request body must be JSON' }, { status: 400 });
+	}
+
+	let message: Request;
+	try {
+		message = describedRequest(body.raw !== undefined ? parseRawRequest(body.raw) : (body.request ?? {}));
+	} catch (err) {
+		return Response.json({ error: err instanceof Error ? err.message : String(err) }, { status: 400 });
+	}
+
+	let keys: ClientKeys;
+	try {
+		keys = bodyKeys(body, env);
+	} catch (err) {
+		return bodyKeyError(request, err as VerificationError);
+	}
+
+	const refused = await limiter?.charge([message]);
+	if (refused) {
+		return refused;
+	}
+
+	return verifyRequest(message, env, url.searchParams, keys, audit);
+}
+
+/**
+ * Verify a raw HTTP/1.1 request pasted as the body of POST /verify/raw,
+ * e.g. a dump from a customer's log.
+ *
+ * The body is the request itself (request line, headers, an empty line and
+ * an optional body), so a dump can be posted as it is with
+ * `curl --data-binary @request.txt`. It is read as bytes, so a body that is
+ * not UTF-8 still matches its Content-Digest. Keys come from this request's
+ * x-public-key-pem / x-public-key-jwk / x-hmac-secret headers, as for a live
+ * request, or from server-side storage. The rebuilt request keeps its target
+ * URI and authority; origin-form targets are resolved with https unless
+ * ?scheme=http says the dump came from a plain HTTP listener.
+ */
+async function verifyRaw(request: Request, env: Env, url: URL, audit?: AuditLogger, limiter?: RequestLimiter): Promise<Response> {
+	if (request.method !== 'POST') {
+		return Response.json({ error: 'Method not allowed' }, { status: 405 });
+	}
+
+	const scheme = url.searchParams.get('scheme') ?? 'https';
+	if (scheme !== 'http' && scheme !== 'https') {
+		return Response.json({ error: 'scheme must be http or https' }, { status: 400 });
+	}
+
+	let message: Request;
+	try {
+		message = describedRequest(parseRawRequest(new Uint8Array(await request.arrayBuffer()), scheme));
+	} catch (err) {
+		return Response.json({ error: err instanceof Error ? err.message : String(err) }, { status: 400 });
+	}
+
+	const refused = await limiter?.charge([message]);
+	if (refused) {
+		return refused;
+	}
+
+	return verifyRequest(message, env, url.searchParams, headerKeys(request, env), audit);
+}
+
+/**
+ * Verify a signed response, described in the body of POST /verify/response
+ * together with the request it answers.
+ *
+ * Components flagged `;req` are taken from the request, everything else
+ * (including `@status`) from the response; results have the same schema as
+ * for requests. Unsigned responses are not challenged: Accept-Signature
+ * asks the client to sign, and the caller here is not the signer.
+ */
+async function verifyResponse(request: Request, env: Env, url: URL, audit?: AuditLogger, limiter?: RequestLimiter): Promise<Response> {
+	if (request.method !== 'POST') {
+		return Response.json({ error: 'Method not allowed' }, { status: 405 });
+	}
+
+	let body: ResponseVerificationBody;
+	try {
+		body = (await request.json()) as ResponseVerificationBody;
+	} catch {
+		return Response.json({ error: 'Request body must be JSON' }, { status: 400 });
+	}
+
+	let message: SignedResponse;
+	try {
+		const originating = body.rawRequest !== undefined ? parseRawRequest(body.rawRequest) : body.request;
+		message = {
+			response: describedResponse(body.rawResponse !== undefined ? parseRawResponse(body.rawResponse) : (body.response ?? {})),
+			request: originating ? describedRequest(originating) : undefined,
+		};
+	} catch (err) {
+		return Response.json({ error: err instanceof Error ? err.message : String(err) }, { status: 400 });
+	}
+
+	let keys: ClientKeys;
+	try {
+		keys = bodyKeys(body, env);
+	} catch (err) {
+		return bodyKeyError(request, err as VerificationError);
+	}
+
+	const refused = await limiter?.charge([message.response]);
+	if (refused) {
+		return refused;
+	}
+
+	return verifyRequest(message, env, url.searchParams, keys, audit);
+}
+
+/**
+ * Verify many captured requests at once, e.g. a signer's regression suite,
+ * described in the body of POST /verify/batch.
+ *
+ * The body is either a JSON array of POST /verify/message bodies (each with
+ * `request` or `raw`, and optionally its own key), or a HAR file, whose
+ * requests are rebuilt with harRequest(). Entries without a key of their
+ * own use the key headers of the batch request, then server-side keys.
+ *
+ * Every entry is verified under the same policies and selectors as a single
+ * request; one that cannot be rebuilt fails on its own without failing the
+ * batch. The answer lists one result per entry and summary counts, with
+ * failures counted by code. The strict profile (see src/profile.ts) only
+ * says which entries verified. Rate limits count every entry, so a batch
+ * larger than the client's remaining quota is refused as a whole with 429.
+ */
+async function verifyBatch(request: Request, env: Env, url: URL, audit?: AuditLogger, limiter?: RequestLimiter): Promise<Response> {
+	if (request.method !== 'POST') {
+		return Response.json({ error: 'Method not allowed' }, { status: 405 });
+	}
+
+	let body: unknown;
+	try {
+		body = await request.json();
+	} catch {
+		return Response.json({ error: 'Request body must be JSON' }, { status: 400 });
+	}
+
+	const defaultKeys = headerKeys(request, env);
+	let entries: { describe: () => MessageDescription; keys: () => ClientKeys }[];
+	if (Array.isArray(body)) {
+		entries = (body as (MessageVerificationBody | null)[]).map((entry) => ({
+			describe: () => (entry?.raw !== undefined ? parseRawRequest(entry.raw) : (entry?.request ?? {})),
+			keys: () => (entry?.publicKey || entry?.hmacSecret ? bodyKeys(entry, env) : defaultKeys),
+		}));
+	} else if (isHar(body)) {
+		entries = body.log.entries.map((entry) => ({ describe: () => harRequest(entry?.request), keys: () => defaultKeys }));
+	} else {
+		return Response.json({ error: 'Request body must be a JSON array of requests or a HAR file' }, { status: 400 });
+	}
+	if (entries.length > MAX_BATCH_SIZE) {
+		return Response.json({ error: `A batch holds at most ${MAX_BATCH_SIZE} requests` }, { status: 400 });
+	}
+
+	// Selectors and policies as in verifyRequest()
+	const labels = url.searchParams.getAll('label').flatMap(parseList);
+	const policy = url.searchParams.get('policy') ?? 'all';
+	if (policy !== 'all' && policy !== 'any') {
+		return Response.json({ error: `Invalid signature policy: ${policy}`, code: 'invalid_request' }, { status: 400 });
+	}
+	const strict = responseProfileFromEnv(env) === 'strict';
+	const timestamps = timestampPolicyFromEnv(env);
+	const options = {
+		labels,
+		policy,
+		debug: !strict && parseFlag(url.searchParams.get('debug') ?? undefined),
+		timestamps,
+		required: coverageRequirementsFromEnv(env),
+		replayGuard: env.NONCES ? nonceReplayGuard(env.NONCES, noncePolicyFromEnv(env), timestamps) : undefined,
+		keyPolicy: keyPolicyFromEnv(env),
+		trustAnchors: env.TRUST_ANCHORS,
+	} as const;
+
+	// Every entry is rebuilt first, so the whole batch is charged before any entry is verified
+	const messages = entries.map(({ describe }) => {
+		try {
+			return describedRequest(describe());
+		} catch (err) {
+			return err instanceof Error ? err : new Error(String(err));
+		}
+	});
+	const refused = await limiter?.charge(messages.filter((message) => message instanceof Request));
+	if (refused) {
+		return refused;
+	}
+
+	// One at a time: entries may share nonces, and their order matters for replay detection
+	const results: BatchResult[] = [];
+	for (const [index, { keys: entryKeys }] of entries.entries()) {
+		const message = messages[index];
+		if (message instanceof Error) {
+			results.push({ index, verified: false, error: message.message, code: 'invalid_request' });
+			continue;
+		}
+
+		const { method, url: target } = message;
+		let keys: ClientKeys;
+		try {
+			keys = entryKeys();
+		} catch (err) {
+			const { message: error, code } = err as VerificationError;
+			results.push({ index, method, url: target, verified: false, error, code });
+			continue;
+		}
+
+		const key = keys.pemKey || clientKeyResolver(keys.jwk, keys.hmacSecret) || serverKeyResolver(env, message);
+		if (!key) {
+			results.push({ index, method, url: target, verified: false, error: 'No key for this request', code: 'missing_key' });
+			continue;
+		}
+
+		const outcome = await verifySignatures(message, key, options);
+		audit?.(outcome.signatures);
+		if (strict) {
+			logOutcome(outcome, message);
+		}
+		results.push({ index, method, url: target, ...outcome });
+	}
+
+	const verified = results.filter((result) => result.verified).length;
+	const summary = { total: results.length, verified, failed: results.length - verified };
+	if (strict) {
+		return Response.json({ summary, results: results.map(({ index, verified }) => ({ index, verified })) });
+	}
+
+	const codes: Record<string, number> = {};
+	for (const result of results.filter((result) => !result.verified)) {
+		const code = result.code ?? result.signatures?.find((signature) => !signature.verified)?.code ?? 'verification_failed';
+		codes[code] = (codes[code] ?? 0) + 1;
+	}
+	return Response.json({ summary: { ...summary, codes }, results });
+}
+
+/**
+ * Client keys from the x-public-key-pem, x-public-key-jwk and x-hmac-secret
+ * headers, when ALLOW_HEADER_KEYS is enabled.
+ */
+function headerKeys(request: Request, env: Env): ClientKeys {
+	const allowHeaderKeys = parseFlag(env.ALLOW_HEADER_KEYS);
+	return {
+		pemKey: allowHeaderKeys ? request.headers.get('x-public-key-pem') : null,
+		jwk: allowHeaderKeys ? request.headers.get('x-public-key-jwk') : null,
+		hmacSecret: allowHeaderKeys ? request.headers.get('x-hmac-secret') : null,
+	};
+}
+
+/**
+ * Client keys from a /verify/message or /verify/response body.
+ *
+ * publicKey may be PEM text, a JWK / JWKS object, or JWK / JWKS JSON text.
+ *
+ * @throws VerificationError (key_parse_error) when publicKey or hmacSecret has any other type
+ */
+function bodyKeys({ publicKey, hmacSecret }: Pick<MessageVerificationBody, 'publicKey' | 'hmacSecret'>, env: Env): ClientKeys {
+	if (publicKey != null && typeof publicKey !== 'string' && typeof publicKey !== 'object') {
+		throw new VerificationError('key_parse_error', 'publicKey must be PEM text or a JWK / JWKS object');
+	}
+	if (hmacSecret != null && typeof hmacSecret !== 'string') {
+		throw new VerificationError('key_parse_error', 'hmacSecret must be a base64 string');
+	}
+
+	const allowHeaderKeys = parseFlag(env.ALLOW_HEADER_KEYS);
+	const isJwk = publicKey != null && (typeof publicKey === 'object' || publicKey.trimStart().startsWith('{'));
+	return {
+		pemKey: allowHeaderKeys && !isJwk ? ((publicKey as string | null | undefined) ?? null) : null,
+		jwk: allowHeaderKeys && isJwk ? (typeof publicKey === 'string' ? publicKey : JSON.stringify(publicKey)) : null,
+		hmacSecret: allowHeaderKeys ? (hmacSecret ?? null) : null,
+	};
+}
+
+/**
+ * Answer a body whose key cannot be used (see bodyKeys()) with a 400.
+ */
+function bodyKeyError(request: Request, err: VerificationError): Response {
+	if (acceptsProblemJson(request)) {
+		return problemResponse(400, err.code, err.message);
+	}
+	return Response.json({ error: err.message, code: err.code }, { status: 400 });
+}
+
+/**
+ * Verify the signatures of a request (or response) and build the JSON response.
+ *
+ * @param signedMessage - The signed request, or a signed response with the request it answers
+ * @param env - Environment bindings (key storage and policies)
+ * @param selection - Query parameters selecting labels, policy and debug mode
+ * @param keys - Client-supplied keys (already filtered by ALLOW_HEADER_KEYS)
+ * @param audit - Records the outcome in the audit log, when AUDIT_DB is bound (see src/audit.ts)
+ */
+async function verifyRequest(
+	signedMessage: SignedMessage,
+	env: Env,
+	selection: URLSearchParams,
+	{ pemKey, jwk, hmacSecret }: ClientKeys,
+	audit?: AuditLogger
+): Promise<Response> {
+	const signed = signedMessage instanceof Request ? signedMessage : signedMessage.response;
+	const allowHeaderKeys = parseFlag(env.ALLOW_HEADER_KEYS);
+	const serverKeys = serverKeyResolver(env, signed);
+	const problem = signedMessage instanceof Request && acceptsProblemJson(signedMessage);
+	const profile = responseProfileFromEnv(env);
+	const noKeys = !pemKey && !jwk && !hmacSecret && !serverKeys;
+
+	if (noKeys && !allowHeaderKeys) {
+		/**
+		 * Misconfiguration: header keys are disabled and there is no
+		 * server-side key storage, so nothing can ever verify.
+		 */
+		const message = 'Bind the KEYS namespace, set HMAC_SECRETS, or enable ALLOW_HEADER_KEYS';
+		if (problem) {
+			return problemResponse(500, 'no_key_source', message);
+		}
+		return Response.json({ error: 'No key source configured', code: 'no_key_source', message }, { status: 500 });
+	}
+
+	/**
+	 * The policies signatures are checked against. They also describe an
+	 * acceptable signature to clients that did not send one (see src/challenge.ts).
+	 */
+	const timestamps = timestampPolicyFromEnv(env);
+	const required = coverageRequirementsFromEnv(env);
+	const nonces = noncePolicyFromEnv(env);
+	const keyPolicy = keyPolicyFromEnv(env);
+	const challenge = signatureChallenge({ required, timestamps, nonces, keyPolicy });
+
+	/**
+	 * Unsigned requests are challenged before a key is asked for: 401 with
+	 * an Accept-Signature header saying what to sign.
+	 */
+	if (signedMessage instanceof Request && !signed.headers.has('Signature-Input')) {
+		const error = 'Message does not contain Signature-Input header';
+		const message = 'Sign the request as described by the Accept-Signature header';
+		const signatures = [{ verified: false, error, code: 'missing_signature_input' as const }];
+		audit?.(signatures);
+		if (profile === 'strict') {
+			logOutcome({ verified: false, policy: 'all', signatures }, signed);
+			return withAcceptSignature(strictResponse(false, problem), challenge);
+		}
+		if (problem) {
+			return withAcceptSignature(problemResponse(401, 'missing_signature_input', error, { message }), challenge);
+		}
+		return withAcceptSignature(
+			Response.json({ verified: false, error, code: 'missing_signature_input', message }, { status: 401 }),
+			challenge
+		);
+	}
+
+	if (noKeys) {
+		/**
+		 * Helpful error response when public key is missing.
+		 *
+		 * Provides:
+		 * - Clear error message
+		 * - Example header format
+		 * - Key generation commands for common algorithms
+		 *
+		 * This assists developers in getting started quickly.
+		 */
+		const message =
+			'Please provide the public key in PEM format via the x-public-key-pem header (or a JWK / JWKS via the x-public-key-jwk header, or an HMAC shared secret via the x-hmac-secret header)';
+		const example = 'x-public-key-pem: -----BEGIN PUBLIC KEY----- MHYwEAYH... -----END PUBLIC KEY-----';
+		if (problem) {
+			return problemResponse(400, 'missing_key', message, { example, keyGenerationCommands });
+		}
+		return Response.json({ error: 'Missing x-public-key-pem header', code: 'missing_key', message, example, keyGenerationCommands }, { status: 400 });
+	}
+
+	/**
+	 * Select which signatures to verify.
+	 *
+	 * A request may carry several labeled signatures (sig1, sig2, ...).
+	 * By default every label is verified and all must pass. Clients can
+	 * pick labels with ?label=sig2 (repeatable or comma-separated) or the
+	 * x-signature-label header, and accept any passing signature with
+	 * ?policy=any or the x-signature-policy header.
+	 */
+	const labels = [...selection.getAll('label'), signed.headers.get('x-signature-label') ?? ''].flatMap(parseList);
+	const policy = selection.get('policy') ?? signed.headers.get('x-signature-policy') ?? 'all';
+	if (policy !== 'all' && policy !== 'any') {
+		const message = 'Use policy=all (every selected signature must verify) or policy=any (at least one)';
+		if (problem) {
+			return problemResponse(400, 'invalid_request', `Invalid signature policy: ${policy}`, { message });
+		}
+		return Response.json({ error: `Invalid signature policy: ${policy}`, code: 'invalid_request', message }, { status: 400 });
+	}
+
+	/**
+	 * Debug mode (?debug=true or x-signature-debug: true) adds the
+	 * reconstructed signature base to each result, to diff against the signer's.
+	 * The strict profile never returns it.
+	 */
+	const debug = profile === 'demo' && parseFlag(selection.get('debug') ?? signed.headers.get('x-signature-debug') ?? undefined);
+
+	/**
+	 * Verify the HTTP message signatures.
+	 *
+	 * verifySignatures checks each selected label with verifySignature, which handles:
+	 * 1. PEM key normalization (header key) or keyid lookup (server-side keys)
+	 * 2. RFC 9421 signature verification
+	 * 3. Timestamp policy (created / expires, see src/policy.ts)
+	 * 4. Required components / parameters (global and per key, see src/policy.ts)
+	 * 5. Cryptographic validation
+	 * 6. Content-Digest against the body, when covered (see src/digest.ts)
+	 * 7. Nonce replay protection (see src/nonces.ts)
+	 * 8. Error handling
+	 */
+	const outcome = await verifySignatures(signedMessage, pemKey || clientKeyResolver(jwk, hmacSecret) || serverKeys!, {
+		labels,
+		policy,
+		debug,
+		timestamps,
+		required,
+		replayGuard: env.NONCES ? nonceReplayGuard(env.NONCES, nonces, timestamps) : undefined,
+		keyPolicy,
+		trustAnchors: env.TRUST_ANCHORS,
+	});
+	audit?.(outcome.signatures);
+
+	/**
+	 * Strict profile (see src/profile.ts): `{"verified": true}` or the same
+	 * generic 401 for every failure; the details go to the logs. Every
+	 * failure carries the challenge, so its presence tells nothing either.
+	 */
+	if (profile === 'strict') {
+		logOutcome(outcome, signed);
+		return withAcceptSignature(strictResponse(outcome.verified, problem), challenge);
+	}
+
+	if (outcome.verified) {
+		/**
+		 * Success response with verification details.
+		 *
+		 * Returns:
+		 * - verified: true (signatures passed verification under the policy)
+		 * - signatures: Per-label results (label, keyid, alg, components, the certificate `signer`, and the signature base in debug mode)
+		 * - Signature: Echo of the Signature header (for debugging)
+		 * - Signature-Input: Echo of the Signature-Input header (for debugging)
+		 * - pemKey: Echo of the public key (header keys only, for debugging)
+		 *
+		 * ⚠️ PRODUCTION WARNING:
+		 * Echoing keys and signatures helps attackers analyze your system.
+		 * In production, return minimal success responses (RESPONSE_PROFILE=strict: just {"verified": true})
+		 */
+		return Response.json(
+			{
+				verified: true,
+				policy: outcome.policy,
+				signatures: outcome.signatures,
+				Signature: signed.headers.get('Signature'),
+				'Signature-Input': signed.headers.get('Signature-Input'),
+				pemKey: pemKey ?? undefined,
+			},
+			{ status: 200 }
+		);
+	} else {
+		/**
+		 * Error response with detailed debugging information.
+		 *
+		 * Common errors:
+		 * - "Invalid signature": Signature doesn't match (wrong key, tampered data)
+		 * - "Failed to parse public key": Invalid PEM format
+		 * - "Unsupported or missing algorithm": Invalid or missing 'alg' parameter
+		 * - "Missing Signature header": No Signature header in request
+		 * - "Missing Signature-Input header": No Signature-Input header in request
+		 * - "Unknown key" / "Key revoked" / "Key expired": Registry lookup failed
+		 * - "Signature expired" / "Signature created in the future" / ...: Timestamp policy
+		 *   violated; `code` identifies which limit (see src/errors.ts)
+		 * - "Nonce already used" / "must send a nonce parameter": Replay protection
+		 * - "Signature is missing required components": Coverage policy; `details` lists what is missing
+		 * - "Content-Digest ... does not match the request body": Body was changed; `details` has expected vs. received
+		 * - "Certificate expired" / "Certificate is not issued by a trust anchor": Certificate chain rejected (see src/certificates.ts)
+		 *
+		 * error / code / details describe the first failing signature; the
+		 * per-label results are in `signatures`. Clients sending
+		 * `Accept: application/problem+json` get the same as RFC 9457 problem
+		 * details (see src/errors.ts).
+		 *
+		 * Failures the client fixes by signing more (a missing Signature
+		 * header, uncovered components, a missing created or nonce) are 401
+		 * with an Accept-Signature header for the failing label instead of 400.
+		 *
+		 * The response includes the signature headers and public key to help
+		 * developers debug their signature generation code.
+		 *
+		 * ⚠️ PRODUCTION WARNING:
+		 * Detailed error messages help attackers probe your system.
+		 * In production, return generic errors (RESPONSE_PROFILE=strict: "Signature verification failed")
+		 */
+		const result = outcome.signatures.find((signature) => !signature.verified)!;
+		const status = signedMessage instanceof Request && CHALLENGE_CODES.has(result.code!) ? 401 : 400;
+		if (problem) {
+			const response = problemResponse(status, result.code!, result.error!, {
+				details: result.details,
+				policy: outcome.policy,
+				signatures: outcome.signatures,
+			});
+			return withAcceptSignature(response, challenge, result.label);
+		}
+		const response = Response.json(
+			{
+				verified: false,
+				error: result.error,
+				code: result.code,
+				details: result.details,
+				policy: outcome.policy,
+				signatures: outcome.signatures,
+				Signature: signed.headers.get('Signature'),
+				'Signature-Input': signed.headers.get('Signature-Input'),
+				pemKey: pemKey ?? undefined,
+			},
+			{ status }
+		);
+		return withAcceptSignature(response, challenge, result.label);
+	}
+}
+
+/**
+ * Add an Accept-Signature header to 401 responses, describing the
+ * signature that would be accepted (see src/challenge.ts).
+ */
+function withAcceptSignature(response: Response, challenge: SignatureChallenge, label?: string): Response {
+	if (response.status === 401) {
+		response.headers.set('Accept-Signature', acceptSignature(challenge, label));
+	}
+	return response;
+}
+
+/**
+ * Verify a request with server-side keys and forward it to the upstream
+ * (reverse-proxy mode, see src/proxy.ts).
+ *
+ * The policies are the same as for verifyRequest(); failures are answered
+ * with 401 by the middleware (the generic one in the strict profile) and
+ * never forwarded. Client-supplied keys are
+ * not consulted, so the request needs a key source that vouches for the signer.
+ */
+async function proxyRequest(
+	request: Request,
+	env: Env,
+	ctx: ExecutionContext,
+	config: ProxyConfig,
+	audit?: AuditLogger
+): Promise<Response> {
+	const keys = serverKeyResolver(env, request);
+	if (!keys) {
+		const message = 'Bind the KEYS namespace, set HMAC_SECRETS, or configure SIGNATURE_AGENTS; header keys are not used in proxy mode';
+		if (acceptsProblemJson(request)) {
+			return problemResponse(500, 'no_key_source', message);
+		}
+		return Response.json({ error: 'No key source configured', code: 'no_key_source', message }, { status: 500 });
+	}
+
+	const timestamps = timestampPolicyFromEnv(env);
+	const required = coverageRequirementsFromEnv(env);
+	const nonces = noncePolicyFromEnv(env);
+	const keyPolicy = keyPolicyFromEnv(env);
+	const strict = responseProfileFromEnv(env) === 'strict';
+	const challenge = signatureChallenge({ required, timestamps, nonces, keyPolicy });
+	const proxy = withSignatureVerification<Env>(
+		{ fetch: (verified) => forwardRequest(verified, verifiedSignatures(verified), config) },
+		{
+			keys,
+			timestamps,
+			required,
+			replayGuard: env.NONCES ? nonceReplayGuard(env.NONCES, nonces, timestamps) : undefined,
+			keyPolicy,
+			trustAnchors: env.TRUST_ANCHORS,
+			onOutcome: (outcome, verified) => {
+				audit?.(outcome.signatures);
+				if (strict) {
+					logOutcome(outcome, verified);
+				}
+			},
+			onFailure: strict ? (_, rejected) => withAcceptSignature(strictResponse(false, acceptsProblemJson(rejected)), challenge) : undefined,
+		}
+	);
+	return proxy.fetch!(request as Request<unknown, IncomingRequestCfProperties>, env, ctx);
+}
+
+/**
+ * Route a request that is verified by this Worker (not forwarded): a
+ * captured request or response described in the body, a raw request dump,
+ * a batch of captured requests, or the live request.
+ */
+async function routeVerification(request: Request, env: Env, url: URL, audit?: AuditLogger, limiter?: RequestLimiter): Promise<Response> {
+	if (url.pathname === '/verify/message') {
+		return verifyMessage(request, env, url, audit, limiter);
+	}
+
+	if (url.pathname === '/verify/raw') {
+		return verifyRaw(request, env, url, audit, limiter);
+	}
+
+	if (url.pathname === '/verify/response') {
+		return verifyResponse(request, env, url, audit, limiter);
+	}
+
+	if (url.pathname === '/verify/batch') {
+		return verifyBatch(request, env, url, audit, limiter);
+	}
+
+	const refused = await limiter?.charge([request]);
+	if (refused) {
+		return refused;
+	}
+
+	/**
+	 * Extract public key (or HMAC shared secret) from request headers.
+	 *
+	 * ⚠️ DEMO ONLY: In production, retrieve keys from server-side storage!
+	 *
+	 * The x-public-key-pem header allows clients to provide their own
+	 * public key for signature verification. This is useful for testing
+	 * but defeats authentication in production environments, so it is
+	 * only honored when ALLOW_HEADER_KEYS is enabled. The same applies to
+	 * x-public-key-jwk, which carries a JWK or JWKS (see src/jwk.ts), and
+	 * x-hmac-secret, which carries a base64 shared secret for hmac-sha256.
+	 */
+	return verifyRequest(request, env, url.searchParams, headerKeys(request, env), audit);
+}
+
+/**
+ * Build the resolver for a client-supplied JWK / JWKS or HMAC secret, if any.
+ */
+function clientKeyResolver(jwk: string | null, hmacSecret: string | null): KeyResolver | undefined {
+	if (jwk) {
+		return jwkKeyResolver(jwk);
+	}
+	return hmacSecret ? sharedSecretResolver(hmacSecret) : undefined;
+}
 
 export default {
 	/**
@@ -37,12 +809,29 @@ export default {
 	 *
 	 * This handler routes requests to appropriate handlers:
 	 * - OPTIONS: CORS preflight
-	 * - GET: Interactive web UI
+	 * - GET /: Interactive web UI (see src/ui.ts)
 	 * - POST: Signature verification
+	 * - POST /verify/message: Verify a described or raw HTTP request (used by the web UI)
+	 * - POST /verify/raw: Verify a raw HTTP/1.1 request sent as the body, with the key in headers
+	 * - POST /verify/response: Verify a signed response and its `;req` components against the originating request
+	 * - POST /verify/batch: Verify a JSON array or HAR file of captured requests
+	 * - POST /sign: Produce signatures for test requests (demo mode, see src/signing.ts)
+	 * - /admin/keys/*: Key registry administration (see src/admin.ts)
+	 * - GET /audit: Query the audit log of verification outcomes (see src/audit.ts)
+	 *
+	 * With UPSTREAM_URL or the UPSTREAM service binding configured, every
+	 * route but /admin and /audit is verified and forwarded instead (see src/proxy.ts).
+	 * Verifying routes are rate limited per client IP and keyid when
+	 * IP_RATE_LIMIT / KEYID_RATE_LIMIT are set (see src/ratelimit.ts).
+	 *
+	 * Keys are resolved from one of three sources:
+	 * - The x-public-key-pem / x-public-key-jwk / x-hmac-secret headers, when ALLOW_HEADER_KEYS is enabled (demo mode)
+	 * - Server-side storage (HMAC_SECRETS, KEYS registry), looked up by the keyid in Signature-Input
+	 * - The key directory named by Signature-Agent, for origins listed in SIGNATURE_AGENTS
 	 *
 	 * ⚠️ SECURITY WARNING:
-	 * This accepts public keys from request headers, which is ONLY appropriate
-	 * for demo/testing. In production, keys MUST be stored and managed server-side.
+	 * Accepting public keys from request headers is ONLY appropriate for
+	 * demo/testing. In production, disable ALLOW_HEADER_KEYS and register keys server-side.
 	 *
 	 * @param request - Incoming HTTP request
 	 * @param env - Environment bindings (platform-specific)
@@ -50,101 +839,60 @@ export default {
 	 * @returns JSON response with verification results or HTML for web UI
 	 */
 	async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
-		/**
-		 * Extract public key from request header.
-		 *
-		 * ⚠️ DEMO ONLY: In production, retrieve keys from server-side storage!
-		 *
-		 * The x-public-key-pem header allows clients to provide their own
-		 * public key for signature verification. This is useful for testing
-		 * but defeats authentication in production environments.
-		 */
-		const pemKey = request.headers.get('x-public-key-pem');
+		const url = new URL(request.url);
 
-		if (!pemKey) {
-			/**
-			 * Helpful error response when public key is missing.
-			 *
-			 * Provides:
-			 * - Clear error message
-			 * - Example header format
-			 * - Key generation commands for common algorithms
-			 *
-			 * This assists developers in getting started quickly.
-			 */
-			return Response.json(
-				{
-					error: 'Missing x-public-key-pem header',
-					message: 'Please provide the public key in PEM format via the x-public-key-pem header',
-					example: 'x-public-key-pem: -----BEGIN PUBLIC KEY----- MHYwEAYH... -----END PUBLIC KEY-----',
-					keyGenerationCommands,
-				},
-				{ status: 400 }
-			);
+		if (url.pathname === '/admin' || url.pathname.startsWith('/admin/')) {
+			return handleAdminRequest(request, env);
 		}
 
-		/**
-		 * Verify the HTTP message signature.
-		 *
-		 * The verifySignature function handles:
-		 * 1. PEM key normalization
-		 * 2. RFC 9421 signature verification
-		 * 3. Cryptographic validation
-		 * 4. Error handling
-		 */
-		const result = await verifySignature(request, pemKey);
+		if (url.pathname === '/audit') {
+			return handleAuditRequest(request, env);
+		}
 
-		if (result.verified) {
+		let proxy: ProxyConfig | undefined;
+		try {
+			proxy = proxyConfigFromEnv(env);
+		} catch (err) {
 			/**
-			 * Success response with verification details.
-			 *
-			 * Returns:
-			 * - verified: true (signature passed verification)
-			 * - Signature: Echo of the Signature header (for debugging)
-			 * - Signature-Input: Echo of the Signature-Input header (for debugging)
-			 * - pemKey: Echo of the public key (for debugging)
-			 *
-			 * ⚠️ PRODUCTION WARNING:
-			 * Echoing keys and signatures helps attackers analyze your system.
-			 * In production, return minimal success responses (e.g., just {"verified": true})
+			 * Misconfiguration: refuse every request rather than verify it
+			 * without forwarding, which would hide the mistake.
 			 */
-			return Response.json(
-				{
-					verified: true,
-					Signature: request.headers.get('Signature'),
-					'Signature-Input': request.headers.get('Signature-Input'),
-					pemKey,
-				},
-				{ status: 200 }
-			);
-		} else {
+			const message = err instanceof Error ? err.message : String(err);
+			if (acceptsProblemJson(request)) {
+				return problemResponse(500, 'invalid_upstream_url', message);
+			}
+			return Response.json({ error: 'Invalid UPSTREAM_URL', code: 'invalid_upstream_url', message }, { status: 500 });
+		}
+		if (!proxy) {
+			if (url.pathname === '/sign') {
+				return handleSignRequest(request, env);
+			}
+
 			/**
-			 * Error response with detailed debugging information.
-			 *
-			 * Common errors:
-			 * - "Invalid signature": Signature doesn't match (wrong key, tampered data)
-			 * - "Failed to parse public key": Invalid PEM format
-			 * - "Unsupported or missing algorithm": Invalid or missing 'alg' parameter
-			 * - "Missing Signature header": No Signature header in request
-			 * - "Missing Signature-Input header": No Signature-Input header in request
-			 *
-			 * The response includes the signature headers and public key to help
-			 * developers debug their signature generation code.
-			 *
-			 * ⚠️ PRODUCTION WARNING:
-			 * Detailed error messages help attackers probe your system.
-			 * In production, return generic errors (e.g., "Verification failed")
+			 * The web UI is served on GET / unless the request is itself signed,
+			 * so signed GET requests to / are still verified.
 			 */
-			return Response.json(
-				{
-					verified: false,
-					error: result.error,
-					Signature: request.headers.get('Signature'),
-					'Signature-Input': request.headers.get('Signature-Input'),
-					pemKey,
-				},
-				{ status: 400 }
-			);
+			if (url.pathname === '/' && request.method === 'GET' && !request.headers.has('Signature')) {
+				return new Response(renderUi(), { headers: { 'content-type': 'text/html; charset=utf-8' } });
+			}
 		}
+
+		/**
+		 * Everything below verifies signatures. Rate limits (see
+		 * src/ratelimit.ts) are applied first, so a client that exhausted its
+		 * quota never reaches key lookup or the upstream. The keyids of
+		 * messages described in the body are charged once the body is parsed.
+		 */
+		const limiter = requestLimiter(env, request);
+		const refused = (await limiter?.arrive()) ?? (proxy ? await limiter?.charge([request]) : undefined);
+		if (refused) {
+			return limiter!.withHeaders(refused);
+		}
+
+		const audit = auditLogger(env, ctx, request);
+		const response = proxy
+			? await proxyRequest(request, env, ctx, proxy, audit)
+			: await routeVerification(request, env, url, audit, limiter);
+		return limiter ? limiter.withHeaders(response) : response;
 	},
 } satisfies ExportedHandler<Env>;
@@ -0,0 +1,192 @@
+/**
+ * JSON Web Key (JWK) and JWK Set (JWKS) support.
+ *
+ * Ed25519 and EC keys are often published as JWKs rather than PEM. A JWK
+ * is used for every signature, like a PEM key; from a JWKS the key is
+ * picked by matching the `keyid` signature parameter against each key's
+ * `kid`, or against its RFC 7638 thumbprint (as Web Bot Auth does).
+ *
+ *   {"kty": "OKP", "crv": "Ed25519", "kid": "test-key-ed25519", "x": "JrQLj5P_89iXES9-vFgrIy29clF9CC_oPPsw3c5D0bs"}
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc7517.html - JSON Web Key
+ * @see https://www.rfc-editor.org/rfc/rfc7638.html - JWK Thumbprint
+ * @see https://www.rfc-editor.org/rfc/rfc9421.html#name-http-signature-algorithms-r (JWS algorithm mapping)
+ */
+
+import type { Algorithm, Parameters } from 'http-message-sig';
+import { createHash, createPublicKey, createSecretKey, type JsonWebKey, type KeyObject } from 'node:crypto';
+import { algorithmMap } from './config';
+import { VerificationError } from './errors';
+import type { KeyResolver, ResolvedKey } from './verification';
+
+/**
+ * The JWK key type (and curve) each RFC 9421 algorithm needs.
+ */
+export const jwkKeyTypes: Record<Algorithm, { kty: string; crv?: string }> = {
+	ed25519: { kty: 'OKP', crv: 'Ed25519' },
+	'ecdsa-p256-sha256': { kty: 'EC', crv: 'P-256' },
+	'ecdsa-p384-sha384': { kty: 'EC', crv: 'P-384' },
+	'rsa-pss-sha512': { kty: 'RSA' },
+	'rsa-v1_5-sha256': { kty: 'RSA' },
+	'hmac-sha256': { kty: 'oct' },
+};
+
+/**
+ * Members hashed by the RFC 7638 thumbprint, per key type, in lexicographic order.
+ */
+const THUMBPRINT_MEMBERS: Record<string, string[]> = {
+	EC: ['crv', 'kty', 'x', 'y'],
+	OKP: ['crv', 'kty', 'x'],
+	RSA: ['e', 'kty', 'n'],
+	oct: ['k', 'kty'],
+};
+
+/**
+ * DER header of an Ed25519 SubjectPublicKeyInfo (RFC 8410), followed by the 32-byte public key.
+ */
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+/**
+ * Compute the RFC 7638 thumbprint of a JWK (SHA-256, base64url).
+ *
+ * @throws Error for key types without a defined thumbprint
+ */
+export function jwkThumbprint(jwk: JsonWebKey): string {
+	const members = THUMBPRINT_MEMBERS[jwk.kty ?? ''];
+	if (!members) {
+		throw new VerificationError('key_parse_error', `Unsupported JWK key type: ${jwk.kty}`);
+	}
+	const canonical = JSON.stringify(Object.fromEntries(members.map((name) => [name, jwk[name]])));
+	return createHash('sha256').update(canonical).digest('base64url');
+}
+
+/**
+ * Parse a JWK or JWKS from JSON text or an already-parsed object.
+ *
+ * @returns The keys, and whether they came from a JWKS (`keys` array)
+ * @throws Error if the input is neither a JWK nor a JWKS
+ */
+export function parseJwks(input: string | object): { keys: JsonWebKey[]; set: boolean } {
+	let value: unknown = input;
+	if (typeof input === 'string') {
+		try {
+			value = JSON.parse(input);
+		} catch {
+			throw new VerificationError('key_parse_error', 'Failed to parse JWK: not valid JSON');
+		}
+	}
+
+	if (value && typeof value === 'object') {
+		if (Array.isArray((value as { keys?: unknown }).keys)) {
+			return { keys: (value as { keys: JsonWebKey[] }).keys, set: true };
+		}
+		if (typeof (value as JsonWebKey).kty === 'string') {
+			return { keys: [value as JsonWebKey], set: false };
+		}
+	}
+	throw new VerificationError('key_parse_error', 'Failed to parse JWK: expected a JWK or a JWKS ({"keys": [...]})');
+}
+
+/**
+ * Pick the JWK for a keyid from a JWKS, by `kid` or RFC 7638 thumbprint.
+ *
+ * A JWKS with a single key is used when the signature has no keyid.
+ *
+ * @throws Error if no key matches
+ */
+export function selectJwk(keys: JsonWebKey[], keyid: string | undefined): JsonWebKey {
+	if (keyid === undefined) {
+		if (keys.length === 1) {
+			return keys[0];
+		}
+		throw new VerificationError('missing_keyid', 'Missing keyid parameter: it is required to pick a key from a JWKS with several keys');
+	}
+
+	const match = keys.find((jwk) => jwk.kid === keyid) ?? keys.find((jwk) => jwk.kty! in THUMBPRINT_MEMBERS && jwkThumbprint(jwk) === keyid);
+	if (!match) {
+		throw new VerificationError('unknown_key', `No key in the JWKS matches keyid ${keyid} (by kid or RFC 7638 thumbprint)`);
+	}
+	return match;
+}
+
+/**
+ * List the RFC 9421 algorithms a JWK can be used with, from its kty / crv.
+ */
+export function jwkAlgorithms(jwk: JsonWebKey): Algorithm[] {
+	return (Object.keys(jwkKeyTypes) as Algorithm[]).filter((alg) => {
+		const { kty, crv } = jwkKeyTypes[alg];
+		return jwk.kty === kty && (crv === undefined || jwk.crv === crv);
+	});
+}
+
+/**
+ * Import a JWK as a KeyObject (public key, or secret key for kty "oct").
+ *
+ * Private members (d, p, q, ...) are ignored: only the public half is used.
+ *
+ * @throws Error if the JWK cannot be imported
+ */
+export function importJwk(jwk: JsonWebKey): KeyObject {
+	try {
+		if (jwk.kty === 'oct') {
+			return createSecretKey(Buffer.from(jwk.k ?? '', 'base64url'));
+		}
+		if (jwk.kty === 'OKP' && jwk.crv === 'Ed25519') {
+			/**
+			 * The Workers runtime's node:crypto decodes the "x" member of
+			 * Ed25519 JWKs incorrectly, so wrap the raw key as SPKI instead.
+			 */
+			const x = Buffer.from(jwk.x ?? '', 'base64url');
+			if (x.length !== 32) {
+				throw new Error('Ed25519 "x" must be 32 bytes');
+			}
+			return createPublicKey({ key: Buffer.concat([ED25519_SPKI_PREFIX, x]), format: 'der', type: 'spki' });
+		}
+		return createPublicKey({ key: jwk, format: 'jwk' });
+	} catch (err) {
+		throw new VerificationError('key_parse_error', `Failed to parse JWK: ${err instanceof Error ? err.message : String(err)}`);
+	}
+}
+
+/**
+ * Build a KeyResolver for a JWK or JWKS supplied by the client.
+ *
+ * The key's algorithms are derived from its kty / crv, so a declared `alg`
+ * that the key cannot be used with is rejected with the expected key type,
+ * and `alg` can be omitted when the key admits a single algorithm.
+ *
+ * @param input - JWK or JWKS, as JSON text or an object
+ */
+export function jwkKeyResolver(input: string | object): KeyResolver {
+	return async (params: Parameters) => {
+		const { keys, set } = parseJwks(input);
+		return resolveJwk(set ? selectJwk(keys, params.keyid) : keys[0], params);
+	};
+}
+
+/**
+ * Import a JWK for a signature, checking its key type against `alg`.
+ *
+ * @returns The key, with the algorithms its kty / crv admit
+ * @throws Error if the key type is unsupported or does not fit `alg`
+ */
+export function resolveJwk(jwk: JsonWebKey, params: Parameters): ResolvedKey {
+	const algorithms = jwkAlgorithms(jwk);
+	if (!algorithms.length) {
+		throw new VerificationError('key_parse_error', `Unsupported JWK key type: ${describeKeyType(jwk)}`);
+	}
+
+	const alg = params.alg as Algorithm | undefined;
+	if (alg && Object.hasOwn(algorithmMap, alg) && !algorithms.includes(alg)) {
+		throw new VerificationError('algorithm_key_mismatch', `Algorithm ${alg} needs key type ${describeKeyType(jwkKeyTypes[alg])}, but the JWK is ${describeKeyType(jwk)}`);
+	}
+
+	return { key: importJwk(jwk), algorithms };
+}
+
+/**
+ * Describe a key type for error messages, e.g. "EC P-256" or "RSA".
+ */
+function describeKeyType({ kty, crv }: { kty?: string; crv?: string }): string {
+	return crv ? `${kty} ${crv}` : String(kty);
+}
@@ -0,0 +1,169 @@
+/**
+ * Key type checks: does a parsed key fit the signature's algorithm?
+ *
+ * Verifying an ECDSA signature with an RSA key, or a P-256 signature with a
+ * P-384 key, can only fail - but as "Invalid signature", which points at the
+ * signature base rather than at the key. The KeyObject is inspected first
+ * (key type, curve, RSA modulus size) so a mismatch is reported as such:
+ *
+ *   Algorithm ecdsa-p256-sha256 needs an EC P-256 key, but the key is an RSA 2048-bit key
+ *
+ * The same inspection lets the algorithm be inferred from the key when a
+ * signature omits `alg` (RFC 9421 Section 3.2, step 6) - opt-in, since the
+ * algorithm is then chosen by whoever supplied the key.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9421.html#name-signature-algorithms
+ */
+
+import type { Algorithm } from 'http-message-sig';
+import { createHash, type KeyObject } from 'node:crypto';
+import { VerificationError } from './errors';
+import { parseFlag, parseList } from './utils';
+
+/**
+ * Default minimum RSA modulus size, in bits (NIST SP 800-131A).
+ */
+export const DEFAULT_MIN_RSA_BITS = 2048;
+
+/**
+ * Limits on the keys signatures are verified with.
+ */
+export interface KeyPolicy {
+	/** Smallest RSA modulus accepted, in bits */
+	minRsaBits: number;
+	/** Take the algorithm from the key type when a signature has no `alg` */
+	inferAlgorithm: boolean;
+	/** Algorithms accepted at all (default: every supported algorithm) */
+	algorithms?: Algorithm[];
+}
+
+/**
+ * Build the key policy from Env vars.
+ *
+ * - MIN_RSA_KEY_BITS: smallest RSA modulus accepted (default 2048)
+ * - INFER_ALGORITHM: "true" to infer a missing `alg` from the key type (default: off)
+ * - SIGNATURE_ALGORITHMS: comma-separated algorithms to accept (default: all supported)
+ *
+ * Unknown algorithm names are ignored.
+ */
+export function keyPolicyFromEnv(env: Env): KeyPolicy {
+	const minRsaBits = Number(env.MIN_RSA_KEY_BITS);
+	const algorithms = parseList(env.SIGNATURE_ALGORITHMS).filter((alg): alg is Algorithm => alg in algorithmKeys);
+	return {
+		minRsaBits: Number.isInteger(minRsaBits) && minRsaBits > 0 ? minRsaBits : DEFAULT_MIN_RSA_BITS,
+		inferAlgorithm: parseFlag(env.INFER_ALGORITHM),
+		algorithms: algorithms.length ? algorithms : undefined,
+	};
+}
+
+/**
+ * The key each RFC 9421 algorithm needs, as KeyObject key type and EC curve.
+ */
+const algorithmKeys: Record<Algorithm, { keyTypes: string[]; namedCurve?: string }> = {
+	ed25519: { keyTypes: ['ed25519'] },
+	'ecdsa-p256-sha256': { keyTypes: ['ec'], namedCurve: 'prime256v1' },
+	'ecdsa-p384-sha384': { keyTypes: ['ec'], namedCurve: 'secp384r1' },
+	'rsa-pss-sha512': { keyTypes: ['rsa', 'rsa-pss'] },
+	'rsa-v1_5-sha256': { keyTypes: ['rsa'] },
+	'hmac-sha256': { keyTypes: ['secret'] },
+};
+
+/**
+ * NIST names of the OpenSSL curve names in asymmetricKeyDetails.
+ */
+const CURVE_NAMES: Record<string, string> = {
+	prime256v1: 'P-256',
+	secp384r1: 'P-384',
+	secp521r1: 'P-521',
+};
+
+/**
+ * List the RFC 9421 algorithms a key can be used with.
+ */
+export function keyAlgorithms(key: KeyObject): Algorithm[] {
+	const keyType = key.type === 'secret' ? 'secret' : key.asymmetricKeyType!;
+	return (Object.keys(algorithmKeys) as Algorithm[]).filter((alg) => {
+		const { keyTypes, namedCurve } = algorithmKeys[alg];
+		return keyTypes.includes(keyType) && (namedCurve === undefined || key.asymmetricKeyDetails?.namedCurve === namedCurve);
+	});
+}
+
+/**
+ * Infer the algorithm of a signature without `alg` from its key.
+ *
+ * @returns The algorithm, or undefined when the key fits several (RSA) or none
+ */
+export function inferAlgorithm(key: KeyObject): Algorithm | undefined {
+	const algorithms = keyAlgorithms(key);
+	return algorithms.length === 1 ? algorithms[0] : undefined;
+}
+
+/**
+ * Check that a key fits an algorithm and meets the key policy.
+ *
+ * @throws VerificationError algorithm_key_mismatch if the key type or curve does not fit `alg`
+ * @throws VerificationError weak_key if an RSA key is smaller than policy.minRsaBits
+ */
+export function checkKeyAlgorithm(alg: Algorithm, key: KeyObject, policy: KeyPolicy): void {
+	if (!keyAlgorithms(key).includes(alg)) {
+		const { keyTypes, namedCurve } = algorithmKeys[alg];
+		throw new VerificationError(
+			'algorithm_key_mismatch',
+			`Algorithm ${alg} needs ${describeKeyType(keyTypes[0], namedCurve)}, but the key is ${describeKey(key)}`,
+			{ alg, key: describeKey(key) }
+		);
+	}
+
+	const modulusLength = key.asymmetricKeyDetails?.modulusLength;
+	if (modulusLength !== undefined && modulusLength < policy.minRsaBits) {
+		throw new VerificationError('weak_key', `RSA key is ${modulusLength} bits; at least ${policy.minRsaBits} are required`, {
+			modulusLength,
+			minRsaBits: policy.minRsaBits,
+		});
+	}
+}
+
+/**
+ * Fingerprint a public key: SHA-256 of its SubjectPublicKeyInfo (DER), base64url.
+ *
+ *   sha256:NFcWBst6DXG-N35nHdzMrioWntdzNZghQSkjHNMMSjw
+ *
+ * Identifies the key in logs without storing it. Shared secrets get no
+ * fingerprint: a hash of a secret can be used to guess it offline.
+ *
+ * @returns The fingerprint, or undefined for secret keys
+ */
+export function keyFingerprint(key: KeyObject): string | undefined {
+	if (key.type === 'secret') {
+		return undefined;
+	}
+	const spki = key.export({ type: 'spki', format: 'der' });
+	return `sha256:${createHash('sha256').update(spki).digest('base64url')}`;
+}
+
+/**
+ * Describe a key for error messages, e.g. "an RSA 2048-bit key" or "an EC P-384 key".
+ */
+export function describeKey(key: KeyObject): string {
+	if (key.type === 'secret') {
+		return describeKeyType('secret');
+	}
+	const { namedCurve, modulusLength } = key.asymmetricKeyDetails ?? {};
+	return describeKeyType(key.asymmetricKeyType!, namedCurve, modulusLength);
+}
+
+function describeKeyType(keyType: string, namedCurve?: string, modulusLength?: number): string {
+	switch (keyType) {
+		case 'secret':
+			return 'a shared secret';
+		case 'ed25519':
+			return 'an Ed25519 key';
+		case 'ec':
+			return namedCurve ? `an EC ${CURVE_NAMES[namedCurve] ?? namedCurve} key` : 'an EC key';
+		case 'rsa':
+		case 'rsa-pss':
+			return modulusLength ? `an RSA ${modulusLength}-bit key` : 'an RSA key';
+		default:
+			return `a ${keyType} key`;
+	}
+}
@@ -0,0 +1,265 @@
+/**
+ * Reconstruct HTTP requests and responses from descriptions.
+ *
+ * The verifier normally checks the live request it receives. To verify a
+ * request that was captured elsewhere (pasted into the web UI, copied from
+ * a log), it is rebuilt as a Request with its original method, target URI,
+ * headers and body, so the signature base comes out exactly as the signer
+ * computed it. Signed responses are rebuilt the same way, from their status,
+ * headers and body. Requests recorded in a HAR file (browser developer
+ * tools, proxies) are converted to the same descriptions.
+ */
+
+/**
+ * A serialized HTTP request.
+ */
+export interface MessageDescription {
+	/** Request method (default GET) */
+	method?: string;
+	/** Absolute target URI, e.g. https://example.com/foo?bar=1 */
+	url?: string;
+	/** Header fields; repeated fields may be given as [name, value] pairs */
+	headers?: Record<string, string> | [string, string][];
+	/** Message content: text, or the exact bytes of a raw message (see parseRawRequest()) */
+	body?: string | Uint8Array;
+}
+
+/**
+ * A serialized HTTP response.
+ */
+export interface ResponseDescription {
+	/** Status code (default 200) */
+	status?: number;
+	/** Header fields; repeated fields may be given as [name, value] pairs */
+	headers?: Record<string, string> | [string, string][];
+	/** Message content: text, or the exact bytes of a raw message (see parseRawResponse()) */
+	body?: string | Uint8Array;
+}
+
+/**
+ * The parts of a HAR (HTTP Archive) file needed to rebuild its requests.
+ *
+ * @see http://www.softwareishard.com/blog/har-12-spec/
+ */
+export interface Har {
+	log: {
+		entries: { request?: HarRequest }[];
+	};
+}
+
+/**
+ * A request recorded in a HAR file.
+ */
+export interface HarRequest {
+	method?: string;
+	url?: string;
+	headers?: { name: string; value: string }[];
+	postData?: { mimeType?: string; text?: string };
+}
+
+/**
+ * Whether a parsed JSON body is a HAR file (has `log.entries`).
+ */
+export function isHar(value: unknown): value is Har {
+	return Array.isArray((value as Har | null)?.log?.entries);
+}
+
+/**
+ * Convert a request recorded in a HAR file into a description.
+ *
+ * HTTP/2 captures list pseudo-header fields (`:authority`, `:path`, ...)
+ * among the headers; they are dropped, since the URL already carries them.
+ *
+ * @throws Error if the HAR entry has no request
+ */
+export function harRequest(request: HarRequest | undefined): MessageDescription {
+	if (!request) {
+		throw new Error('HAR entry has no request');
+	}
+	return {
+		method: request.method,
+		url: request.url,
+		headers: (request.headers ?? []).filter(({ name }) => !name.startsWith(':')).map(({ name, value }): [string, string] => [name, value]),
+		body: request.postData?.text,
+	};
+}
+
+/**
+ * Build a Request from a description.
+ *
+ * @throws Error if the URL is missing or not absolute, or a GET/HEAD request has a body
+ */
+export function describedRequest({ method = 'GET', url, headers, body }: MessageDescription): Request {
+	if (!url) {
+		throw new Error('Missing request url');
+	}
+	if (!URL.canParse(url)) {
+		throw new Error(`Request url must be an absolute URL: ${url}`);
+	}
+
+	method = method.toUpperCase();
+	if (body?.length && (method === 'GET' || method === 'HEAD')) {
+		throw new Error(`A ${method} request cannot have a body`);
+	}
+	return new Request(url, { method, headers: headers ?? {}, body: body?.length ? body : undefined });
+}
+
+/**
+ * Parse a raw HTTP/1.1 request into a description.
+ *
+ *   POST /foo?param=Value HTTP/1.1
+ *   Host: example.com
+ *   Content-Type: application/json
+ *
+ *   {"hello": "world"}
+ *
+ * Origin-form targets are resolved against the Host header; absolute-form
+ * targets (as sent to proxies) are used as-is. Line endings may be CRLF or LF
+ * (see splitRawMessage() for how the body is kept).
+ *
+ * @param message - Request line, header lines, an empty line and an optional body; as
+ *   text (encoded as UTF-8) or as the bytes of a dump, which need not be UTF-8
+ * @param scheme - Scheme for origin-form targets (the raw text does not carry it)
+ * @throws Error if the request line or a header line is malformed, or Host is missing
+ */
+export function parseRawRequest(message: string | Uint8Array, scheme = 'https'): MessageDescription {
+	const { head, body } = splitRawMessage(message);
+	const [requestLine, ...headerLines] = head.split('\n');
+	const match = requestLine.match(/^([A-Za-z]+) (\S+) HTTP\/1\.[01]$/);
+	if (!match) {
+		throw new Error(`Malformed request line: ${requestLine}`);
+	}
+	const [, method, target] = match;
+
+	const headers = parseHeaderLines(headerLines);
+
+	let url = target;
+	if (!URL.canParse(target)) {
+		const host = headers.find(([name]) => name.toLowerCase() === 'host')?.[1];
+		if (!host) {
+			throw new Error('Missing Host header');
+		}
+		url = `${scheme}://${host}${target}`;
+	}
+
+	return { method, url, headers, body: withoutTrailingNewlines(method, headers, withContentLength(headers, body)) };
+}
+
+/**
+ * Build a Response from a description.
+ *
+ * @throws Error if the status is not a valid status code, or a 204 / 304 response has a body
+ */
+export function describedResponse({ status = 200, headers, body }: ResponseDescription): Response {
+	if (!Number.isInteger(status) || status < 200 || status > 599) {
+		throw new Error(`Response status must be an integer from 200 to 599: ${status}`);
+	}
+	if (body?.length && (status === 204 || status === 304)) {
+		throw new Error(`A ${status} response cannot have a body`);
+	}
+	return new Response(body?.length ? body : null, { status, headers: headers ?? {} });
+}
+
+/**
+ * Parse a raw HTTP/1.1 response into a description.
+ *
+ *   HTTP/1.1 200 OK
+ *   Content-Type: application/json
+ *
+ *   {"hello": "world"}
+ *
+ * @param message - Status line, header lines, an empty line and an optional body, as text or bytes
+ * @throws Error if the status line or a header line is malformed
+ */
+export function parseRawResponse(message: string | Uint8Array): ResponseDescription {
+	const { head, body } = splitRawMessage(message);
+	const [statusLine, ...headerLines] = head.split('\n');
+	const match = statusLine.match(/^HTTP\/1\.[01] (\d{3})(?: .*)?$/);
+	if (!match) {
+		throw new Error(`Malformed status line: ${statusLine}`);
+	}
+
+	const headers = parseHeaderLines(headerLines);
+	return { status: Number(match[1]), headers, body: withContentLength(headers, body) };
+}
+
+const CR = 0x0d;
+const LF = 0x0a;
+
+/**
+ * Split a raw HTTP/1.1 message into its head (start line and header lines) and body.
+ *
+ * Only the head is decoded, and only its line endings are normalized to LF.
+ * The body is kept as the bytes that were written, CRLF and any non-UTF-8
+ * content included, since a covered Content-Digest is computed over them.
+ */
+function splitRawMessage(message: string | Uint8Array): { head: string; body: Uint8Array } {
+	const bytes = typeof message === 'string' ? new TextEncoder().encode(message) : message;
+
+	let start = 0;
+	while (bytes[start] === LF || (bytes[start] === CR && bytes[start + 1] === LF)) {
+		start += bytes[start] === CR ? 2 : 1;
+	}
+
+	// The head ends at the first empty line (LF or CRLF line endings, mixed as they come)
+	for (let index = start; index < bytes.length; index++) {
+		const next = bytes[index + 1] === CR ? index + 2 : index + 1;
+		if (bytes[index] === LF && bytes[next] === LF) {
+			const end = bytes[index - 1] === CR ? index - 1 : index;
+			return { head: decodeHead(bytes.subarray(start, end)), body: bytes.slice(next + 1) };
+		}
+	}
+	return { head: decodeHead(bytes.subarray(start)).trimEnd(), body: new Uint8Array() };
+}
+
+/**
+ * Decode the head of a raw message, with LF line endings.
+ */
+function decodeHead(bytes: Uint8Array): string {
+	return new TextDecoder().decode(bytes).replace(/\r\n/g, '\n');
+}
+
+/**
+ * Cut a body down to its Content-Length.
+ *
+ * Dumps saved to a file often gain a trailing newline that was never sent;
+ * when the message declares its length, anything after it is dropped. A
+ * body shorter than declared is left alone (and fails its digest, if covered).
+ */
+function withContentLength(headers: [string, string][], body: Uint8Array): Uint8Array {
+	const declared = headers.find(([name]) => name.toLowerCase() === 'content-length')?.[1];
+	if (declared === undefined || !/^\d+$/.test(declared) || body.length <= Number(declared)) {
+		return body;
+	}
+	return body.slice(0, Number(declared));
+}
+
+/**
+ * Drop a body made only of line breaks from a GET or HEAD request that
+ * declares no body (neither Content-Length nor Transfer-Encoding).
+ *
+ * Such a request cannot have a body, so the line breaks are the trailing
+ * newline a dump gains when saved to a file, not content that was sent.
+ */
+function withoutTrailingNewlines(method: string, headers: [string, string][], body: Uint8Array): Uint8Array {
+	if (!['GET', 'HEAD'].includes(method.toUpperCase()) || !body.every((byte) => byte === CR || byte === LF)) {
+		return body;
+	}
+	const declared = headers.some(([name]) => ['content-length', 'transfer-encoding'].includes(name.toLowerCase()));
+	return declared ? body : new Uint8Array();
+}
+
+/**
+ * Parse `Name: value` header lines, keeping repeated fields.
+ *
+ * @throws Error if a line has no field name
+ */
+function parseHeaderLines(lines: string[]): [string, string][] {
+	return lines.map((line) => {
+		const colon = line.indexOf(':');
+		if (colon <= 0) {
+			throw new Error(`Malformed header line: ${line}`);
+		}
+		return [line.slice(0, colon).trim(), line.slice(colon + 1).trim()];
+	});
+}
@@ -0,0 +1,134 @@
+/**
+ * Signature verification middleware for any Worker.
+ *
+ * Wraps an ExportedHandler so its fetch handler only runs for requests whose
+ * signatures verify. The verified signatures (label, keyid, alg, covered
+ * components and certificate identity) are available to the inner handler
+ * through verifiedSignatures(request):
+ *
+ *   export default withSignatureVerification(
+ *   	{
+ *   		async fetch(request) {
+ *   			const [{ keyid }] = verifiedSignatures(request);
+ *   			return new Response(`Hello, ${keyid}`);
+ *   		},
+ *   	},
+ *   	(request, env) => ({ keys: registryKeyResolver(env.KEYS!), required: { components: ['@method', '@authority'] } })
+ *   );
+ *
+ * Rejected requests get a 401 with the failure's error / code / details (as
+ * application/problem+json if the client accepts it), or whatever
+ * `onFailure` returns. Unsigned and under-signed requests also get an
+ * Accept-Signature header derived from the options (see src/challenge.ts).
+ */
+
+import { acceptSignature, CHALLENGE_CODES, signatureChallenge, type SignatureChallenge } from './challenge';
+import { acceptsProblemJson, problemResponse } from './errors';
+import {
+	verifySignatures,
+	type KeyResolver,
+	type MultiVerificationResult,
+	type SignaturePolicy,
+	type VerificationOptions,
+	type VerificationResult,
+} from './verification';
+
+/**
+ * What the inner handler learns about a verified signature.
+ */
+export type VerifiedSignature = Pick<VerificationResult, 'label' | 'keyid' | 'alg' | 'components' | 'signer'>;
+
+/**
+ * Middleware options: the key source, the checks beyond the signature itself
+ * (see VerificationOptions) and how rejections are reported.
+ */
+export interface SignatureVerificationOptions extends Omit<VerificationOptions, 'label' | 'debug'> {
+	/** PEM public key or certificate chain, or a KeyResolver (e.g. registryKeyResolver(env.KEYS)) */
+	keys: string | KeyResolver;
+	/** Labels to verify (default: all present) */
+	labels?: string[];
+	/** Whether all selected signatures must verify, or any (default: all) */
+	policy?: SignaturePolicy;
+	/** Build the response for a rejected request (default: 401 JSON with error / code / details, and Accept-Signature) */
+	onFailure?: (outcome: MultiVerificationResult, request: Request) => Response | Promise<Response>;
+	/** Observe every outcome, verified or not, e.g. to write an audit log */
+	onOutcome?: (outcome: MultiVerificationResult, request: Request) => void;
+}
+
+/**
+ * Verified signatures by request, set before the inner handler runs.
+ */
+const verifiedRequests = new WeakMap<Request, VerifiedSignature[]>();
+
+/**
+ * Get the signatures verified for a request by withSignatureVerification().
+ *
+ * Only the request object passed to the inner handler is known: a copy made
+ * with `new Request(request)` has no verified signatures.
+ *
+ * @returns The verified signatures, or an empty array if the request did not pass the middleware
+ */
+export function verifiedSignatures(request: Request): VerifiedSignature[] {
+	return verifiedRequests.get(request) ?? [];
+}
+
+/**
+ * Wrap a Worker so its fetch handler only sees requests with valid signatures.
+ *
+ * Other handlers (scheduled, queue, ...) are passed through unchanged.
+ *
+ * @param handler - The Worker to protect; it must have a fetch handler
+ * @param options - Options, or a function building them per request (e.g. from Env bindings)
+ * @returns A Worker that verifies before calling `handler.fetch`
+ * @throws Error if `handler` has no fetch handler
+ */
+export function withSignatureVerification<E = Env>(
+	handler: ExportedHandler<E>,
+	options: SignatureVerificationOptions | ((request: Request, env: E) => SignatureVerificationOptions)
+): ExportedHandler<E> {
+	const fetch = handler.fetch;
+	if (!fetch) {
+		throw new Error('withSignatureVerification() needs a handler with a fetch method');
+	}
+
+	return {
+		...handler,
+		async fetch(request, env, ctx) {
+			const { keys, onFailure, onOutcome, ...verification } = typeof options === 'function' ? options(request, env) : options;
+			const outcome = await verifySignatures(request, keys, verification);
+			onOutcome?.(outcome, request);
+			if (!outcome.verified) {
+				return onFailure ? onFailure(outcome, request) : failureResponse(outcome, request, signatureChallenge(verification));
+			}
+
+			verifiedRequests.set(
+				request,
+				outcome.signatures
+					.filter((result) => result.verified)
+					.map(({ label, keyid, alg, components, signer }) => ({ label, keyid, alg, components, signer }))
+			);
+			return fetch.call(handler, request, env, ctx);
+		},
+	};
+}
+
+/**
+ * Default rejection: 401 with the first failing signature's error, code and
+ * details, as RFC 9457 problem details when the client accepts them.
+ * Failures fixed by signing (more) carry the Accept-Signature challenge.
+ */
+function failureResponse(outcome: MultiVerificationResult, request: Request, challenge: SignatureChallenge): Response {
+	const {
+		label,
+		error = 'Signature verification failed',
+		code = 'verification_failed',
+		details,
+	} = outcome.signatures.find((result) => !result.verified) ?? {};
+	const response = acceptsProblemJson(request)
+		? problemResponse(401, code, error, { details })
+		: Response.json({ verified: false, error, code, details }, { status: 401 });
+	if (CHALLENGE_CODES.has(code)) {
+		response.headers.set('Accept-Signature', acceptSignature(challenge, label));
+	}
+	return response;
+}
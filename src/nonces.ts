@@ -0,0 +1,155 @@
+/**
+ * Nonce-based replay protection.
+ *
+ * A valid signature can be captured and re-sent verbatim; the timestamp
+ * policy only narrows the window in which that works. RFC 9421's `nonce`
+ * parameter closes it: the verifier remembers every nonce it has accepted
+ * and rejects a second request carrying the same one.
+ *
+ * Nonces are recorded in the NonceStore Durable Object, one instance per
+ * keyid, so checking and recording a nonce is a single atomic step and two
+ * concurrent replays cannot both succeed.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9421.html#name-replay-attacks
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import type { Parameters } from 'http-message-sig';
+import { VerificationError } from './errors';
+import { toSeconds, type TimestampPolicy } from './policy';
+import { parseList, parseSeconds } from './utils';
+import type { ReplayGuard } from './verification';
+
+/**
+ * How long a nonce is remembered when the signature itself sets no bound
+ * (no `expires`, no SIGNATURE_MAX_AGE).
+ */
+export const DEFAULT_NONCE_TTL_SECONDS = 86400;
+
+/**
+ * Which signatures must carry a nonce, and how long nonces are remembered.
+ */
+export interface NoncePolicy {
+	/** Keyids that must send a nonce, or '*' for every key */
+	requiredFor: '*' | string[];
+	/** Seconds to remember a nonce when the signature sets no bound */
+	ttl: number;
+}
+
+/**
+ * Build the nonce policy from Env vars.
+ *
+ * - NONCE_REQUIRED_KEYS: comma-separated keyids that must send a nonce, or "*" (default: none)
+ * - NONCE_TTL: seconds to remember nonces of signatures without expires (default 86400)
+ */
+export function noncePolicyFromEnv(env: Env): NoncePolicy {
+	const required = parseList(env.NONCE_REQUIRED_KEYS);
+	return {
+		requiredFor: required.includes('*') ? '*' : required,
+		ttl: parseSeconds(env.NONCE_TTL) ?? DEFAULT_NONCE_TTL_SECONDS,
+	};
+}
+
+/**
+ * Records nonces for one keyid until they expire.
+ *
+ * Storage keys are `nonce:<nonce>`, values the Unix time (seconds) until
+ * which the nonce must be rejected. An alarm removes expired entries.
+ */
+export class NonceStore extends DurableObject<Env> {
+	/**
+	 * Record a nonce unless it is already recorded.
+	 *
+	 * @param nonce - The signature's nonce parameter
+	 * @param retainUntil - Unix time (seconds) until which reuse must be rejected
+	 * @returns false if the nonce was already used, true if it is new
+	 */
+	async claim(nonce: string, retainUntil: number): Promise<boolean> {
+		const key = `nonce:${nonce}`;
+		const seenUntil = await this.ctx.storage.get<number>(key);
+		if (seenUntil !== undefined && seenUntil >= Math.floor(Date.now() / 1000)) {
+			return false;
+		}
+
+		await this.ctx.storage.put(key, retainUntil);
+
+		const alarm = await this.ctx.storage.getAlarm();
+		if (alarm === null || alarm > retainUntil * 1000) {
+			await this.ctx.storage.setAlarm(retainUntil * 1000);
+		}
+		return true;
+	}
+
+	/**
+	 * Delete expired nonces and schedule the next cleanup.
+	 */
+	async alarm(): Promise<void> {
+		const now = Math.floor(Date.now() / 1000);
+		const entries = await this.ctx.storage.list<number>({ prefix: 'nonce:' });
+
+		const expired: string[] = [];
+		let next: number | undefined;
+		for (const [key, retainUntil] of entries) {
+			if (retainUntil < now) {
+				expired.push(key);
+			} else if (next === undefined || retainUntil < next) {
+				next = retainUntil;
+			}
+		}
+
+		// delete() accepts at most 128 keys per call
+		for (let i = 0; i < expired.length; i += 128) {
+			await this.ctx.storage.delete(expired.slice(i, i + 128));
+		}
+		if (next !== undefined) {
+			await this.ctx.storage.setAlarm(next * 1000);
+		}
+	}
+}
+
+/**
+ * Compute until when a nonce must be remembered.
+ *
+ * A replay only matters while the signature would otherwise still verify:
+ * until `expires`, or until `created` falls out of the maximum age. Without
+ * either bound the nonce is kept for the policy TTL.
+ */
+function retention(params: Parameters, timestamps: TimestampPolicy | undefined, ttl: number, now: number): number {
+	const bounds: number[] = [];
+	if (params.expires !== undefined) {
+		bounds.push(toSeconds(params.expires));
+	}
+	if (params.created !== undefined && timestamps?.maxAge !== undefined) {
+		bounds.push(toSeconds(params.created) + timestamps.maxAge + timestamps.clockSkew);
+	}
+	return bounds.length ? Math.min(...bounds) : now + ttl;
+}
+
+/**
+ * Build a ReplayGuard backed by the NonceStore Durable Object.
+ *
+ * Every nonce that is sent is checked and recorded; keys listed in the
+ * policy must send one.
+ *
+ * @param namespace - The NONCES Durable Object namespace
+ * @param policy - Nonce policy (see noncePolicyFromEnv)
+ * @param timestamps - Timestamp policy, used to bound how long nonces are kept
+ */
+export function nonceReplayGuard(namespace: DurableObjectNamespace<NonceStore>, policy: NoncePolicy, timestamps?: TimestampPolicy): ReplayGuard {
+	return async (params: Parameters) => {
+		const keyid = params.keyid ?? '';
+
+		if (!params.nonce) {
+			if (policy.requiredFor === '*' || policy.requiredFor.includes(keyid)) {
+				throw new VerificationError('missing_nonce', `Key ${keyid} must send a nonce parameter`);
+			}
+			return;
+		}
+
+		const retainUntil = retention(params, timestamps, policy.ttl, Math.floor(Date.now() / 1000));
+		const store = namespace.get(namespace.idFromName(keyid));
+		if (!(await store.claim(params.nonce, retainUntil))) {
+			throw new VerificationError('nonce_replayed', `Nonce already used: ${params.nonce}`);
+		}
+	};
+}
@@ -0,0 +1,189 @@
+/**
+ * Verification policy: checks applied to a signature after its parameters
+ * are parsed, on top of the cryptographic verification itself.
+ *
+ * Policies are built from Env vars so deployments can tighten them without
+ * code changes (see wrangler.jsonc).
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9421.html#name-signature-parameters
+ */
+
+import type { Parameters } from 'http-message-sig';
+import { VerificationError } from './errors';
+import { parseList, parseSeconds } from './utils';
+
+/**
+ * Default tolerance for clocks that disagree between signer and verifier.
+ */
+export const DEFAULT_CLOCK_SKEW_SECONDS = 60;
+
+/**
+ * Limits on the `created` and `expires` signature parameters.
+ */
+export interface TimestampPolicy {
+	/** Seconds a `created` timestamp may lie in the future */
+	clockSkew: number;
+	/** Maximum age of a signature in seconds, measured from `created`. Unlimited when omitted. */
+	maxAge?: number;
+}
+
+/**
+ * Build the timestamp policy from Env vars.
+ *
+ * - SIGNATURE_CLOCK_SKEW: seconds of allowed clock skew (default 60)
+ * - SIGNATURE_MAX_AGE: maximum signature age in seconds (default: unlimited)
+ */
+export function timestampPolicyFromEnv(env: Env): TimestampPolicy {
+	return {
+		clockSkew: parseSeconds(env.SIGNATURE_CLOCK_SKEW) ?? DEFAULT_CLOCK_SKEW_SECONDS,
+		maxAge: parseSeconds(env.SIGNATURE_MAX_AGE),
+	};
+}
+
+/**
+ * Convert a `created` / `expires` parameter to Unix seconds.
+ *
+ * Depending on the http-message-sig version, timestamps are parsed into
+ * Date objects or left as the integers from the header.
+ */
+export function toSeconds(value: Date | number): number {
+	return value instanceof Date ? Math.floor(value.getTime() / 1000) : value;
+}
+
+/**
+ * Enforce the timestamp policy on a signature's parameters.
+ *
+ * RFC 9421 leaves timestamp enforcement to the verifier (Section 3.2.1);
+ * without it a captured signature stays valid forever.
+ *
+ * - `expires` in the past is always rejected (the signer's own deadline)
+ * - `created` in the future is rejected beyond the allowed clock skew
+ * - `created` older than maxAge is rejected when maxAge is configured;
+ *   signatures without `created` are then rejected too, since their age is unknown
+ *
+ * @param params - Parsed Signature-Input parameters
+ * @param policy - Timestamp policy
+ * @param now - Current time in Unix seconds
+ * @throws VerificationError with a code identifying the violated limit
+ */
+export function checkTimestamps(params: Parameters, policy: TimestampPolicy, now: number): void {
+	if (params.expires !== undefined) {
+		const expires = toSeconds(params.expires);
+		if (expires < now) {
+			throw new VerificationError('signature_expired', `Signature expired at ${expires} (now ${now})`);
+		}
+	}
+
+	if (params.created === undefined) {
+		if (policy.maxAge !== undefined) {
+			throw new VerificationError('missing_created', 'Signature has no created parameter, so its age cannot be checked');
+		}
+		return;
+	}
+
+	const created = toSeconds(params.created);
+	if (created > now + policy.clockSkew) {
+		throw new VerificationError(
+			'signature_not_yet_valid',
+			`Signature created in the future at ${created} (now ${now}, allowed clock skew ${policy.clockSkew}s)`
+		);
+	}
+	if (policy.maxAge !== undefined && now - created > policy.maxAge + policy.clockSkew) {
+		throw new VerificationError('signature_too_old', `Signature created at ${created} is older than the maximum age of ${policy.maxAge}s`);
+	}
+}
+
+/**
+ * Signature parameters a policy can require.
+ */
+export const REQUIRABLE_PARAMETERS = ['created', 'expires', 'keyid', 'nonce', 'tag', 'alg'] as const;
+
+export type RequirableParameter = (typeof REQUIRABLE_PARAMETERS)[number];
+
+/**
+ * What a signature must cover to be accepted.
+ *
+ * A signature only authenticates the components it lists; one over `()` is
+ * valid but says nothing about the request. Requirements name the
+ * components (e.g. `@method`, `@authority`, `content-digest`) and
+ * parameters that must be present.
+ */
+export interface CoverageRequirements {
+	/** Component names that must appear in the Signature-Input component list */
+	components?: string[];
+	/** Signature parameters that must be present */
+	parameters?: RequirableParameter[];
+}
+
+/**
+ * Build the global coverage requirements from Env vars.
+ *
+ * - REQUIRED_COMPONENTS: comma-separated component names, e.g. "@method,@authority,content-digest"
+ * - REQUIRED_PARAMETERS: comma-separated parameter names, e.g. "created,keyid"
+ *
+ * Unknown parameter names are ignored.
+ */
+export function coverageRequirementsFromEnv(env: Env): CoverageRequirements {
+	return {
+		components: parseList(env.REQUIRED_COMPONENTS),
+		parameters: parseList(env.REQUIRED_PARAMETERS).filter((name): name is RequirableParameter =>
+			(REQUIRABLE_PARAMETERS as readonly string[]).includes(name)
+		),
+	};
+}
+
+/**
+ * Extract the covered component names from a signature base.
+ *
+ * The last line of the base is `"@signature-params": (<components>);<params>`,
+ * listing every covered component identifier in order. Component parameters
+ * (e.g. `"@query-param";name="Pet"`) are dropped; only names are returned.
+ *
+ * @param signatureBase - Signature base built by http-message-sig
+ * @returns Lowercased component names
+ */
+export function coveredComponents(signatureBase: string): string[] {
+	const paramsLine = signatureBase.slice(signatureBase.lastIndexOf('\n') + 1);
+	const list = paramsLine.match(/^"@signature-params": \(([^)]*)\)/)?.[1] ?? '';
+	return [...list.matchAll(/(?:^|\s)"([^"]+)"/g)].map((match) => match[1].toLowerCase());
+}
+
+/**
+ * Enforce coverage requirements on a signature.
+ *
+ * All requirement sets apply (e.g. the global policy and the key's own).
+ *
+ * @param signatureBase - Signature base built by http-message-sig
+ * @param params - Parsed Signature-Input parameters
+ * @param requirements - Requirement sets; undefined entries are skipped
+ * @throws VerificationError (insufficient_coverage) listing every missing component and parameter
+ */
+export function checkCoverage(signatureBase: string, params: Parameters, ...requirements: (CoverageRequirements | undefined)[]): void {
+	const covered = new Set(coveredComponents(signatureBase));
+	const missingComponents = new Set<string>();
+	const missingParameters = new Set<RequirableParameter>();
+
+	for (const required of requirements) {
+		for (const component of required?.components ?? []) {
+			if (!covered.has(component.toLowerCase())) {
+				missingComponents.add(component);
+			}
+		}
+		for (const parameter of required?.parameters ?? []) {
+			if (params[parameter] === undefined) {
+				missingParameters.add(parameter);
+			}
+		}
+	}
+
+	if (missingComponents.size || missingParameters.size) {
+		const missing = [
+			missingComponents.size ? `components ${[...missingComponents].join(', ')}` : '',
+			missingParameters.size ? `parameters ${[...missingParameters].join(', ')}` : '',
+		].filter(Boolean);
+		throw new VerificationError('insufficient_coverage', `Signature is missing required ${missing.join(' and ')}`, {
+			missingComponents: [...missingComponents],
+			missingParameters: [...missingParameters],
+		});
+	}
+}
@@ -0,0 +1,80 @@
+/**
+ * Response profiles: how much a verification response tells the client.
+ *
+ * - demo (default): the verbose debugging body. Per-signature results, the
+ *   error text and details of the first failure, the signature base in
+ *   debug mode, and echoes of Signature, Signature-Input and the header key.
+ * - strict: `{"verified": true}` on success and one generic 401 for every
+ *   failure, so a response tells an attacker nothing about keys, policies
+ *   or why a signature was rejected. Debug mode is ignored.
+ *
+ *   RESPONSE_PROFILE=strict
+ *
+ * In the strict profile the details the demo profile would have returned are
+ * logged instead (visible with `wrangler tail`), so failures can still be
+ * diagnosed by whoever runs the service.
+ */
+
+import { problemResponse } from './errors';
+import type { MultiVerificationResult } from './verification';
+
+/**
+ * How much verification responses disclose.
+ */
+export type ResponseProfile = 'demo' | 'strict';
+
+/**
+ * Error text of every failure in the strict profile.
+ */
+export const STRICT_ERROR = 'Signature verification failed';
+
+/**
+ * Read the response profile from RESPONSE_PROFILE.
+ *
+ * Unset or "demo" selects the demo profile. Any other value selects strict,
+ * so a typo never turns the verbose responses back on.
+ */
+export function responseProfileFromEnv(env: Env): ResponseProfile {
+	const value = (env.RESPONSE_PROFILE ?? '').trim().toLowerCase();
+	return value === '' || value === 'demo' ? 'demo' : 'strict';
+}
+
+/**
+ * Build the strict-profile response for a verification outcome.
+ *
+ * Failures are all the same 401 with code `verification_failed`, as RFC
+ * 9457 problem details when the client accepts them.
+ *
+ * @param verified - Whether the message verified
+ * @param problem - Whether the client accepts application/problem+json
+ */
+export function strictResponse(verified: boolean, problem: boolean): Response {
+	if (verified) {
+		return Response.json({ verified: true });
+	}
+	if (problem) {
+		return problemResponse(401, 'verification_failed', STRICT_ERROR);
+	}
+	return Response.json({ verified: false, error: STRICT_ERROR, code: 'verification_failed' }, { status: 401 });
+}
+
+/**
+ * Log the details of a verification outcome that the strict profile keeps
+ * out of the response: one JSON line with the per-signature results and the
+ * signature headers.
+ *
+ * @param outcome - The verification outcome
+ * @param signed - The message carrying the Signature headers
+ */
+export function logOutcome(outcome: MultiVerificationResult, signed: Request | Response): void {
+	const entry = JSON.stringify({
+		...outcome,
+		Signature: signed.headers.get('Signature'),
+		'Signature-Input': signed.headers.get('Signature-Input'),
+	});
+	if (outcome.verified) {
+		console.log('Signature verification succeeded:', entry);
+	} else {
+		console.warn('Signature verification failed:', entry);
+	}
+}
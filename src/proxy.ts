@@ -0,0 +1,126 @@
+/**
+ * Reverse-proxy mode: verify, then forward to an upstream origin.
+ *
+ * When UPSTREAM_URL or the UPSTREAM service binding is configured, the
+ * Worker no longer answers with its own JSON. Requests whose signatures
+ * verify are forwarded to the upstream with the verified identity added:
+ *
+ *   X-Verified-Keyid: test-key-ed25519
+ *   X-Verified-Alg: ed25519
+ *
+ * Requests that fail verification get a 401 (see src/middleware.ts) and
+ * never reach the upstream. Only server-side keys are used: a key sent by
+ * the client proves nothing about who signed, so the key headers are
+ * ignored in this mode whatever ALLOW_HEADER_KEYS says, and stripped.
+ */
+
+import type { VerifiedSignature } from './middleware';
+import { parseFlag } from './utils';
+
+/**
+ * Headers carrying the verified identity to the upstream. Several verified
+ * signatures give comma-separated values, in label order.
+ */
+export const VERIFIED_KEYID_HEADER = 'X-Verified-Keyid';
+export const VERIFIED_ALG_HEADER = 'X-Verified-Alg';
+
+/**
+ * Headers that are never forwarded: client-supplied keys (an HMAC secret
+ * must not leak to the upstream), verification selectors, and verified
+ * identity headers the client may have set itself.
+ */
+const CLIENT_HEADERS = [
+	'x-public-key-pem',
+	'x-public-key-jwk',
+	'x-hmac-secret',
+	'x-signature-label',
+	'x-signature-policy',
+	'x-signature-debug',
+	VERIFIED_KEYID_HEADER,
+	VERIFIED_ALG_HEADER,
+];
+
+/**
+ * Signature headers, stripped unless FORWARD_SIGNATURE_HEADERS is set.
+ */
+const SIGNATURE_HEADERS = ['signature', 'signature-input', 'signature-agent'];
+
+/**
+ * Where and how verified requests are forwarded.
+ */
+export interface ProxyConfig {
+	/** Base URL (origin and optional path prefix), or a service binding */
+	upstream: URL | Fetcher;
+	/** Forward Signature, Signature-Input and Signature-Agent, e.g. for an upstream that verifies again */
+	forwardSignatureHeaders: boolean;
+}
+
+/**
+ * Build the proxy configuration from Env vars and bindings.
+ *
+ * The UPSTREAM service binding takes precedence over UPSTREAM_URL.
+ *
+ * @returns undefined when neither is configured (the Worker answers itself)
+ * @throws Error if UPSTREAM_URL is not an absolute http(s) URL
+ */
+export function proxyConfigFromEnv(env: Env): ProxyConfig | undefined {
+	const forwardSignatureHeaders = parseFlag(env.FORWARD_SIGNATURE_HEADERS);
+	if (env.UPSTREAM) {
+		return { upstream: env.UPSTREAM, forwardSignatureHeaders };
+	}
+	if (!env.UPSTREAM_URL) {
+		return undefined;
+	}
+	const upstream = URL.canParse(env.UPSTREAM_URL) ? new URL(env.UPSTREAM_URL) : undefined;
+	if (upstream?.protocol !== 'https:' && upstream?.protocol !== 'http:') {
+		throw new Error(`UPSTREAM_URL must be an absolute http(s) URL: ${env.UPSTREAM_URL}`);
+	}
+	return { upstream, forwardSignatureHeaders };
+}
+
+/**
+ * Forward a verified request to the upstream.
+ *
+ * The path and query are appended to UPSTREAM_URL (`https://api.internal/v1`
+ * + `/orders?id=1`); a service binding receives the original URL. Method and
+ * body are forwarded unchanged, redirects are passed back to the client.
+ *
+ * @param request - The verified request
+ * @param signatures - Its verified signatures (see verifiedSignatures())
+ * @param config - The proxy configuration
+ * @returns The upstream response, or 502 if the upstream cannot be reached
+ */
+export async function forwardRequest(request: Request, signatures: VerifiedSignature[], config: ProxyConfig): Promise<Response> {
+	const headers = new Headers(request.headers);
+	for (const name of config.forwardSignatureHeaders ? CLIENT_HEADERS : [...CLIENT_HEADERS, ...SIGNATURE_HEADERS]) {
+		headers.delete(name);
+	}
+	const keyids = signatures.flatMap(({ keyid }) => (keyid !== undefined ? [keyid] : []));
+	const algorithms = signatures.flatMap(({ alg }) => (alg !== undefined ? [alg] : []));
+	if (keyids.length) {
+		headers.set(VERIFIED_KEYID_HEADER, keyids.join(', '));
+	}
+	if (algorithms.length) {
+		headers.set(VERIFIED_ALG_HEADER, algorithms.join(', '));
+	}
+
+	const { upstream } = config;
+	const url = upstream instanceof URL ? upstreamUrl(upstream, new URL(request.url)) : request.url;
+	const forwarded = new Request(url, { method: request.method, headers, body: request.body, redirect: 'manual' });
+	try {
+		return await (upstream instanceof URL ? fetch(forwarded) : upstream.fetch(forwarded));
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		return Response.json({ error: 'Upstream unavailable', message }, { status: 502 });
+	}
+}
+
+/**
+ * Append the request's path and query to the upstream base URL.
+ */
+function upstreamUrl(base: URL, url: URL): string {
+	const target = new URL(base);
+	target.pathname = `${base.pathname.replace(/\/$/, '')}${url.pathname}`;
+	target.search = url.search;
+	return target.toString();
+}
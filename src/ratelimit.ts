@@ -0,0 +1,308 @@
+/**
+ * Rate limiting of verification requests.
+ *
+ * Every verification answers a question about a key ("does this signature
+ * verify?"), so unlimited attempts let a client probe keys and policies.
+ * Token buckets limit attempts per client IP and per `keyid`:
+ *
+ *   IP_RATE_LIMIT=60/60       60 requests, refilled at 60 per 60 seconds
+ *   KEYID_RATE_LIMIT=600/60   per keyid named in Signature-Input
+ *
+ * A bucket holds up to `capacity` tokens and refills continuously; each
+ * request takes one token from its IP bucket when it arrives, and one from
+ * the bucket of every keyid named by the message it verifies (the request
+ * itself, or the message described in its body), before the signature is
+ * checked. A batch (/verify/batch) is charged like one request per entry.
+ * keyids are taken as claimed: an attacker probing a key is limited
+ * whether or not the signature verifies. A request that finds a bucket empty
+ * is answered with 429 and Retry-After; every other response carries the
+ * remaining quota:
+ *
+ *   X-RateLimit-Limit: 60
+ *   X-RateLimit-Remaining: 41
+ *   X-RateLimit-Reset: 19
+ *
+ * Buckets live in the RateLimiter Durable Object, one instance per bucket,
+ * so concurrent requests cannot take the same token twice.
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import { acceptsProblemJson, problemResponse } from './errors';
+import { splitDictionary } from './utils';
+
+/**
+ * Size and refill rate of a token bucket.
+ */
+export interface TokenBucket {
+	/** Maximum number of tokens (the burst size) */
+	capacity: number;
+	/** Seconds to refill an empty bucket completely */
+	period: number;
+}
+
+/**
+ * Which requests are limited, and how much.
+ */
+export interface RateLimitPolicy {
+	/** Bucket per client IP (CF-Connecting-IP) */
+	ip?: TokenBucket;
+	/** Bucket per keyid named in Signature-Input */
+	keyid?: TokenBucket;
+}
+
+/**
+ * Most keyids one message may name. Each keyid bucket is a Durable Object
+ * call, so a message that names more is refused (400, code invalid_request)
+ * instead of fanning out. Batches may name more in total; their buckets are
+ * charged this many at a time.
+ */
+export const MAX_KEYID_BUCKETS = 8;
+
+/**
+ * State of a bucket after taking a token.
+ */
+export interface Quota {
+	/** Whether a token was available */
+	allowed: boolean;
+	/** The bucket's capacity */
+	limit: number;
+	/** Whole tokens left */
+	remaining: number;
+	/** Seconds until the bucket is full again */
+	reset: number;
+	/** Seconds until a token is available, when none was */
+	retryAfter?: number;
+}
+
+/**
+ * Parse a limit like "60/60" (capacity / period in seconds).
+ *
+ * @returns The bucket, or undefined when unset or malformed
+ */
+export function parseRateLimit(value: string | undefined): TokenBucket | undefined {
+	const match = (value ?? '').trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+	const [capacity, period] = match ? [Number(match[1]), Number(match[2])] : [0, 0];
+	return capacity > 0 && period > 0 ? { capacity, period } : undefined;
+}
+
+/**
+ * Build the rate limit policy from Env vars.
+ *
+ * - IP_RATE_LIMIT: requests per client IP, as "capacity/seconds" (default: unlimited)
+ * - KEYID_RATE_LIMIT: requests per keyid, as "capacity/seconds" (default: unlimited)
+ *
+ * @returns undefined when neither limit is set
+ */
+export function rateLimitPolicyFromEnv(env: Env): RateLimitPolicy | undefined {
+	const ip = parseRateLimit(env.IP_RATE_LIMIT);
+	const keyid = parseRateLimit(env.KEYID_RATE_LIMIT);
+	return ip || keyid ? { ip, keyid } : undefined;
+}
+
+/**
+ * One token bucket.
+ *
+ * Storage holds `{ tokens, updatedAt }`; tokens are refilled lazily when a
+ * request arrives. An alarm deletes the bucket once it would be full again,
+ * so idle clients leave nothing behind.
+ */
+export class RateLimiter extends DurableObject<Env> {
+	/**
+	 * Take `count` tokens, if there are that many. A count above the capacity
+	 * is never allowed.
+	 *
+	 * @param bucket - Capacity and refill period (the limit may change between calls)
+	 * @param count - Tokens to take: one per message that counts against the bucket
+	 * @returns The quota after this request
+	 */
+	async take({ capacity, period }: TokenBucket, count = 1): Promise<Quota> {
+		const now = Date.now();
+		const rate = capacity / period / 1000;
+		const state = await this.ctx.storage.get<{ tokens: number; updatedAt: number }>('bucket');
+		const available = state ? Math.min(capacity, state.tokens + (now - state.updatedAt) * rate) : capacity;
+
+		const allowed = available >= count;
+		const tokens = allowed ? available - count : available;
+		const fullIn = (capacity - tokens) / rate;
+
+		// A full bucket that refused more tokens than it holds has nothing to remember
+		if (fullIn > 0) {
+			await this.ctx.storage.put('bucket', { tokens, updatedAt: now });
+			await this.ctx.storage.setAlarm(now + fullIn);
+		}
+
+		return {
+			allowed,
+			limit: capacity,
+			remaining: Math.floor(tokens),
+			reset: Math.ceil(fullIn / 1000),
+			retryAfter: allowed ? undefined : Math.ceil((count - tokens) / rate / 1000),
+		};
+	}
+
+	/**
+	 * Forget the bucket: it is full again.
+	 */
+	async alarm(): Promise<void> {
+		await this.ctx.storage.deleteAll();
+	}
+}
+
+/**
+ * The rate limits of one incoming request.
+ *
+ * The client IP is charged when the request arrives, before anything is
+ * parsed. keyids are charged once the messages the request verifies are
+ * known: the request itself, or the messages described in its body
+ * (/verify/message, /verify/raw, /verify/response, /verify/batch).
+ */
+export interface RequestLimiter {
+	/**
+	 * Take a token from the bucket of the client IP (CF-Connecting-IP).
+	 *
+	 * @returns A 429 response when the bucket is empty
+	 */
+	arrive(): Promise<Response | undefined>;
+	/**
+	 * Charge the messages to verify: a token from the bucket of every keyid
+	 * named in their Signature-Input, once per message that names it, and a
+	 * token from the client IP's bucket for every message after the first
+	 * (the first is covered by arrive()).
+	 *
+	 * @returns A 429 response when a bucket holds too few tokens, or a 400
+	 *   when a message names more than MAX_KEYID_BUCKETS keyids
+	 */
+	charge(messages: (Request | Response)[]): Promise<Response | undefined>;
+	/**
+	 * Add the X-RateLimit-* headers of the most constrained bucket taken so far.
+	 */
+	withHeaders(response: Response): Response;
+}
+
+/**
+ * Build the rate limiter for one incoming request.
+ *
+ * @param request - The incoming request: its client IP, and whether it accepts problem details
+ * @returns undefined when no limit is set or RATE_LIMITER is not bound
+ */
+export function requestLimiter(env: Env, request: Request): RequestLimiter | undefined {
+	const policy = rateLimitPolicyFromEnv(env);
+	const namespace = env.RATE_LIMITER;
+	if (!policy || !namespace) {
+		return undefined;
+	}
+
+	const ip = request.headers.get('cf-connecting-ip');
+	const quotas: Quota[] = [];
+	const take = async (buckets: [name: string, bucket: TokenBucket, count: number][]): Promise<Response | undefined> => {
+		const taken = await Promise.all(buckets.map(([name, bucket, count]) => namespace.get(namespace.idFromName(name)).take(bucket, count)));
+		quotas.push(...taken);
+		const quota = mostConstrained(quotas);
+		return quota && !quota.allowed ? tooManyRequests(quota, request) : undefined;
+	};
+
+	return {
+		async arrive() {
+			return policy.ip && ip ? take([[`ip:${ip}`, policy.ip, 1]]) : undefined;
+		},
+
+		async charge(messages) {
+			const buckets: [string, TokenBucket, number][] = [];
+			if (policy.ip && ip && messages.length > 1) {
+				buckets.push([`ip:${ip}`, policy.ip, messages.length - 1]);
+			}
+			if (policy.keyid) {
+				const counts = new Map<string, number>();
+				for (const message of messages) {
+					const keyids = claimedKeyids(message.headers.get('signature-input') ?? '');
+					if (keyids.length > MAX_KEYID_BUCKETS) {
+						return tooManyKeyids(keyids.length, request);
+					}
+					for (const keyid of keyids) {
+						counts.set(keyid, (counts.get(keyid) ?? 0) + 1);
+					}
+				}
+				buckets.push(...[...counts].map(([keyid, count]): [string, TokenBucket, number] => [`keyid:${keyid}`, policy.keyid!, count]));
+			}
+			// A batch may name many keyids: charge them a few at a time, and stop at the first refusal
+			for (let start = 0; start < buckets.length; start += MAX_KEYID_BUCKETS) {
+				const refused = await take(buckets.slice(start, start + MAX_KEYID_BUCKETS));
+				if (refused) {
+					return refused;
+				}
+			}
+			return undefined;
+		},
+
+		withHeaders(response) {
+			const quota = mostConstrained(quotas);
+			return quota ? withQuotaHeaders(response, quota) : response;
+		},
+	};
+}
+
+/**
+ * The most constrained of the quotas taken: the denied one with the longest
+ * wait if any, otherwise the one with the fewest tokens left.
+ */
+function mostConstrained(quotas: Quota[]): Quota | undefined {
+	const denied = quotas.filter((quota) => !quota.allowed);
+	if (denied.length) {
+		return denied.reduce((longest, quota) => (quota.retryAfter! > longest.retryAfter! ? quota : longest));
+	}
+	return quotas.reduce<Quota | undefined>((fewest, quota) => (!fewest || quota.remaining < fewest.remaining ? quota : fewest), undefined);
+}
+
+/**
+ * The distinct keyids named in a Signature-Input header.
+ */
+function claimedKeyids(signatureInput: string): string[] {
+	const keyids = new Set<string>();
+	for (const member of splitDictionary(signatureInput).values()) {
+		const match = member.match(/;\s*keyid="((?:[^"\\]|\\.)*)"/);
+		if (match) {
+			keyids.add(match[1].replace(/\\(.)/g, '$1'));
+		}
+	}
+	return [...keyids];
+}
+
+/**
+ * Answer a request that exceeded its quota: 429 with Retry-After, as RFC
+ * 9457 problem details when the client accepts them.
+ */
+export function tooManyRequests(quota: Quota, request: Request): Response {
+	const error = 'Rate limit exceeded';
+	const message = `Retry in ${quota.retryAfter} seconds`;
+	const response = acceptsProblemJson(request)
+		? problemResponse(429, 'rate_limited', error, { message })
+		: Response.json({ error, code: 'rate_limited', message }, { status: 429 });
+	response.headers.set('Retry-After', String(quota.retryAfter));
+	return withQuotaHeaders(response, quota);
+}
+
+/**
+ * Refuse a message that names more keyids than MAX_KEYID_BUCKETS: 400, as
+ * RFC 9457 problem details when the client accepts them.
+ */
+function tooManyKeyids(count: number, request: Request): Response {
+	const error = `Too many keyids: ${count}`;
+	const message = `Signatures may name at most ${MAX_KEYID_BUCKETS} keyids per message`;
+	return acceptsProblemJson(request)
+		? problemResponse(400, 'invalid_request', error, { message })
+		: Response.json({ error, code: 'invalid_request', message }, { status: 400 });
+}
+
+/**
+ * Add the X-RateLimit-* headers to a response.
+ *
+ * Responses from an upstream (reverse-proxy mode) have immutable headers,
+ * so the response is copied first.
+ */
+export function withQuotaHeaders(response: Response, quota: Quota): Response {
+	const limited = new Response(response.body, response);
+	limited.headers.set('X-RateLimit-Limit', String(quota.limit));
+	limited.headers.set('X-RateLimit-Remaining', String(quota.remaining));
+	limited.headers.set('X-RateLimit-Reset', String(quota.reset));
+	return limited;
+}
@@ -0,0 +1,140 @@
+/**
+ * Server-side key registry backed by Workers KV.
+ *
+ * Instead of trusting a public key supplied by the client, the registry maps
+ * the `keyid` parameter from `Signature-Input` to a key registered ahead of
+ * time by an administrator, together with metadata that constrains how the
+ * key may be used (allowed algorithms, expiry, revocation).
+ *
+ * Storage layout:
+ * - Key:      `key:<keyid>`
+ * - Value:    JSON-encoded KeyRecord (includes the PEM public key)
+ * - Metadata: KeyMetadata (everything except the key material), so that
+ *             listing keys never has to read every value
+ *
+ * @see https://developers.cloudflare.com/kv/api/
+ * @see https://www.rfc-editor.org/rfc/rfc9421.html#name-signature-parameters
+ */
+
+import type { Algorithm, Parameters } from 'http-message-sig';
+import { createPublicKey } from 'node:crypto';
+import { VerificationError } from './errors';
+import type { CoverageRequirements } from './policy';
+import type { KeyResolver } from './verification';
+import { normalizePem } from './utils';
+
+/**
+ * A public key registered for signature verification.
+ *
+ * Timestamps are Unix seconds, matching the `created` and `expires`
+ * signature parameters of RFC 9421.
+ */
+export interface KeyRecord {
+	keyid: string;
+	publicKey: string;
+	/** Algorithms this key may be used with. Empty means any supported algorithm. */
+	algorithms: Algorithm[];
+	/** Components and parameters signatures by this key must cover, on top of the global policy */
+	required?: CoverageRequirements;
+	createdAt: number;
+	expiresAt?: number;
+	rotatedAt?: number;
+	revokedAt?: number;
+}
+
+/**
+ * Summary of a key record, stored as KV metadata for listings.
+ *
+ * KV caps metadata at 1024 bytes, so only small, bounded fields are kept
+ * (see validateRegistration() in src/admin.ts for the limits); the full
+ * record is fetched with getKey().
+ */
+export interface KeyMetadata {
+	keyid: string;
+	algorithms: Algorithm[];
+	expiresAt?: number;
+	status: 'active' | 'revoked';
+}
+
+const KEY_PREFIX = 'key:';
+
+/**
+ * Look up a registered key by its keyid.
+ *
+ * @returns The stored record, or null if the keyid was never registered
+ */
+export async function getKey(kv: KVNamespace, keyid: string): Promise<KeyRecord | null> {
+	return kv.get<KeyRecord>(`${KEY_PREFIX}${keyid}`, 'json');
+}
+
+/**
+ * Store (or overwrite) a key record.
+ */
+export async function putKey(kv: KVNamespace, record: KeyRecord): Promise<void> {
+	const metadata: KeyMetadata = {
+		keyid: record.keyid,
+		algorithms: record.algorithms,
+		expiresAt: record.expiresAt,
+		status: record.revokedAt === undefined ? 'active' : 'revoked',
+	};
+	await kv.put(`${KEY_PREFIX}${record.keyid}`, JSON.stringify(record), { metadata });
+}
+
+/**
+ * List registered keys, one page at a time.
+ *
+ * Only metadata is returned - the public keys themselves are fetched
+ * individually with getKey().
+ *
+ * @param cursor - Cursor returned by the previous page, if any
+ * @param limit - Maximum number of keys per page (KV caps this at 1000)
+ */
+export async function listKeys(
+	kv: KVNamespace,
+	{ cursor, limit = 100 }: { cursor?: string; limit?: number } = {}
+): Promise<{ keys: KeyMetadata[]; cursor?: string }> {
+	const page = await kv.list<KeyMetadata>({ prefix: KEY_PREFIX, cursor, limit });
+
+	return {
+		keys: page.keys.flatMap((key) => (key.metadata ? [key.metadata] : [])),
+		cursor: page.list_complete ? undefined : page.cursor,
+	};
+}
+
+/**
+ * Create a KeyResolver that looks keys up in the registry by `keyid`.
+ *
+ * The resolver rejects signatures that:
+ * - Omit the `keyid` parameter (nothing to look up)
+ * - Reference a keyid that was never registered
+ * - Reference a revoked key
+ * - Reference a key past its `expiresAt` timestamp
+ *
+ * Allowed algorithms and coverage requirements are returned alongside the
+ * key so that verifySignature can enforce them.
+ */
+export function registryKeyResolver(kv: KVNamespace): KeyResolver {
+	return async (params: Parameters) => {
+		const keyid = params.keyid;
+		if (!keyid) {
+			throw new VerificationError('missing_keyid', 'Missing keyid parameter: the key registry requires keyid in Signature-Input');
+		}
+
+		const record = await getKey(kv, keyid);
+		if (!record) {
+			throw new VerificationError('unknown_key', `Unknown key: ${keyid}`);
+		}
+		if (record.revokedAt !== undefined) {
+			throw new VerificationError('key_revoked', `Key revoked: ${keyid}`);
+		}
+		if (record.expiresAt !== undefined && record.expiresAt <= Date.now() / 1000) {
+			throw new VerificationError('key_expired', `Key expired: ${keyid}`);
+		}
+
+		try {
+			return { key: createPublicKey(normalizePem(record.publicKey)), algorithms: record.algorithms, required: record.required };
+		} catch (err) {
+			throw new VerificationError('key_parse_error', `Failed to parse public key: ${err instanceof Error ? err.message : String(err)}`);
+		}
+	};
+}
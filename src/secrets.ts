@@ -0,0 +1,65 @@
+/**
+ * Shared secrets for hmac-sha256 signatures.
+ *
+ * HMAC is symmetric: the signer and verifier hold the same secret, so the
+ * secret can never be published like a public key. Secrets come from:
+ * - The x-hmac-secret header (demo mode only, see ALLOW_HEADER_KEYS)
+ * - The HMAC_SECRETS Worker secret: a JSON object mapping keyid to a
+ *   base64-encoded secret, set with `wrangler secret put HMAC_SECRETS`
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9421.html#name-hmac-using-sha-256
+ */
+
+import type { Parameters } from 'http-message-sig';
+import { createSecretKey, type KeyObject } from 'node:crypto';
+import { VerificationError } from './errors';
+import type { KeyResolver } from './verification';
+
+/**
+ * Decode a base64 shared secret (e.g. from `openssl rand -base64 32`).
+ *
+ * @throws Error if the secret is empty after decoding
+ */
+export function parseSharedSecret(secret: string): KeyObject {
+	const bytes = Buffer.from(secret.trim(), 'base64');
+	if (bytes.length === 0) {
+		throw new VerificationError('key_parse_error', 'Failed to parse shared secret: secret is empty or not base64');
+	}
+	return createSecretKey(bytes);
+}
+
+/**
+ * Build a KeyResolver for a single shared secret (the demo x-hmac-secret header).
+ */
+export function sharedSecretResolver(secret: string): KeyResolver {
+	return async () => ({ key: parseSharedSecret(secret), algorithms: ['hmac-sha256'] });
+}
+
+/**
+ * Build a KeyResolver backed by the HMAC_SECRETS secret store.
+ *
+ * Keyids present in the store resolve to their shared secret; any other
+ * keyid is handed to `fallback` (typically the public key registry).
+ *
+ * @param secrets - JSON object of keyid → base64 secret
+ * @param fallback - Resolver for keyids that are not in the store
+ */
+export function secretStoreResolver(secrets: string, fallback?: KeyResolver): KeyResolver {
+	return async (params: Parameters) => {
+		let store: Record<string, string>;
+		try {
+			store = JSON.parse(secrets);
+		} catch {
+			throw new VerificationError('key_parse_error', 'HMAC_SECRETS must be a JSON object mapping keyid to a base64 secret');
+		}
+
+		const keyid = params.keyid;
+		if (keyid && Object.hasOwn(store, keyid)) {
+			return { key: parseSharedSecret(store[keyid]), algorithms: ['hmac-sha256'] };
+		}
+		if (fallback) {
+			return fallback(params);
+		}
+		throw new VerificationError('unknown_key', `Unknown key: ${keyid}`);
+	};
+}
@@ -0,0 +1,229 @@
+/**
+ * Interactive web UI served on GET /.
+ *
+ * A single self-contained page (no external assets) where a developer can
+ * paste a public key and a signed request, either as method / URL /
+ * headers / body or as raw HTTP/1.1 text, and see the verification result,
+ * the reconstructed signature base and any policy failures.
+ *
+ * The page posts to POST /verify/message with debug mode enabled, so it
+ * shows exactly what the JSON API returns; it adds no verification logic
+ * of its own.
+ */
+
+/**
+ * Example signed request shown on first load, signed with the RFC 9421
+ * test-key-ed25519 (the same signature POST /sign produces for it).
+ */
+const EXAMPLE_RAW_REQUEST = `POST /foo?param=Value&Pet=dog HTTP/1.1
+Host: example.com
+Content-Type: application/json
+Signature-Input: sig1=("@method" "@path" "@authority" "content-type");created=1618884473;keyid="test-key-ed25519";alg="ed25519"
+Signature: sig1=:UboWDrAzFBLUR/9dKgMpGj0Lr9bD8RYCyLCioFBYri42KyvTbUykOMV0kRQu7UoOzWm++BKYJXeHt9J/8AdQAg==:
+
+{"hello": "world"}`;
+
+const EXAMPLE_PUBLIC_KEY = `-----BEGIN PUBLIC KEY-----
+MCowBQYDK2VwAyEAJrQLj5P/89iXES9+vFgrIy29clF9CC/oPPsw3c5D0bs=
+-----END PUBLIC KEY-----`;
+
+const STYLES = `
+	body { font-family: system-ui, sans-serif; margin: 0 auto; max-width: 72rem; padding: 1rem 2rem; color: #1f2328; }
+	h1 { font-size: 1.4rem; }
+	.warning { background: #fff8c5; border: 1px solid #d4a72c; padding: 0.5rem 1rem; border-radius: 6px; }
+	form { display: grid; grid-template-columns: 1fr 1fr; gap: 1rem; }
+	fieldset { border: 1px solid #d0d7de; border-radius: 6px; }
+	label { display: block; font-weight: 600; margin-top: 0.5rem; }
+	textarea, input, select { width: 100%; box-sizing: border-box; font-family: ui-monospace, monospace; font-size: 0.85rem; }
+	textarea { min-height: 8rem; }
+	.mode { display: flex; gap: 1rem; } .mode label { font-weight: normal; }
+	.mode input { width: auto; }
+	button { grid-column: span 2; padding: 0.6rem; font-size: 1rem; cursor: pointer; }
+	.badge { display: inline-block; padding: 0.2rem 0.7rem; border-radius: 1rem; color: #fff; font-weight: 600; }
+	.ok { background: #1a7f37; } .fail { background: #cf222e; }
+	table { border-collapse: collapse; width: 100%; margin: 1rem 0; }
+	th, td { border: 1px solid #d0d7de; padding: 0.3rem 0.5rem; text-align: left; vertical-align: top; font-size: 0.85rem; }
+	pre { background: #f6f8fa; padding: 0.5rem; overflow-x: auto; font-size: 0.8rem; }
+	ol.base { background: #f6f8fa; font-family: ui-monospace, monospace; font-size: 0.8rem; padding: 0.5rem 0.5rem 0.5rem 3rem; white-space: pre-wrap; word-break: break-all; }
+	[hidden] { display: none; }
+`;
+
+/**
+ * Client-side script: collect the form into a POST /verify/message body
+ * and render the JSON response. All response values are inserted with
+ * textContent, never as HTML.
+ */
+const SCRIPT = `
+	const form = document.getElementById('verify-form');
+	const output = document.getElementById('output');
+
+	function selectedMode() {
+		return form.querySelector('input[name=mode]:checked').value;
+	}
+
+	function toggleMode() {
+		document.getElementById('structured').hidden = selectedMode() !== 'structured';
+		document.getElementById('raw').hidden = selectedMode() !== 'raw';
+	}
+
+	function parseHeaderLines(text) {
+		return text.split('\\n').filter((line) => line.trim()).map((line) => {
+			const colon = line.indexOf(':');
+			return colon > 0 ? [line.slice(0, colon).trim(), line.slice(colon + 1).trim()] : [line.trim(), ''];
+		});
+	}
+
+	function element(tag, text, className) {
+		const node = document.createElement(tag);
+		if (text !== undefined) node.textContent = text;
+		if (className) node.className = className;
+		return node;
+	}
+
+	function render(status, data) {
+		output.replaceChildren();
+		output.append(element('span', data.verified ? 'Verified' : 'Not verified', 'badge ' + (data.verified ? 'ok' : 'fail')));
+		output.append(element('span', ' HTTP ' + status));
+
+		if (data.error) {
+			output.append(element('h3', 'Error'));
+			output.append(element('p', data.error + (data.code ? ' (' + data.code + ')' : '')));
+			if (data.message) output.append(element('p', data.message));
+			if (data.details) output.append(element('pre', JSON.stringify(data.details, null, 2)));
+		}
+
+		for (const signature of data.signatures || []) {
+			output.append(element('h3', 'Signature ' + (signature.label || '')));
+			const table = element('table');
+			const rows = [
+				['Result', signature.verified ? 'verified' : signature.error],
+				['Code', signature.code],
+				['keyid', signature.keyid],
+				['alg', signature.alg],
+				['Covered components', (signature.components || []).join(' ')],
+			];
+			for (const [name, value] of rows) {
+				if (value === undefined || value === '') continue;
+				const row = element('tr');
+				row.append(element('th', name), element('td', String(value)));
+				table.append(row);
+			}
+			output.append(table);
+
+			if (signature.details) {
+				output.append(element('h4', 'Policy failure details'), element('pre', JSON.stringify(signature.details, null, 2)));
+			}
+			if (signature.debug) {
+				output.append(element('h4', 'Signature base'));
+				const list = element('ol', undefined, 'base');
+				for (const line of signature.debug.lines) list.append(element('li', line));
+				output.append(list);
+				output.append(element('h4', 'Parameters'), element('pre', JSON.stringify(signature.debug.parameters, null, 2)));
+			}
+		}
+
+		const raw = element('details');
+		raw.append(element('summary', 'Raw response'), element('pre', JSON.stringify(data, null, 2)));
+		output.append(raw);
+	}
+
+	form.addEventListener('change', toggleMode);
+	form.addEventListener('submit', async (event) => {
+		event.preventDefault();
+		const fields = form.elements;
+		const body = { publicKey: fields.publicKey.value || undefined, hmacSecret: fields.hmacSecret.value || undefined };
+		if (selectedMode() === 'raw') {
+			body.raw = fields.rawRequest.value;
+		} else {
+			body.request = {
+				method: fields.method.value,
+				url: fields.url.value,
+				headers: parseHeaderLines(fields.headers.value),
+				body: fields.body.value,
+			};
+		}
+
+		const query = new URLSearchParams({ debug: 'true', policy: fields.policy.value });
+		if (fields.label.value) query.set('label', fields.label.value);
+
+		output.replaceChildren(element('p', 'Verifying…'));
+		try {
+			const response = await fetch('/verify/message?' + query, {
+				method: 'POST',
+				headers: { 'content-type': 'application/json' },
+				body: JSON.stringify(body),
+			});
+			render(response.status, await response.json());
+		} catch (err) {
+			output.replaceChildren(element('p', 'Request failed: ' + err));
+		}
+	});
+
+	toggleMode();
+`;
+
+/**
+ * Escape text for inclusion in HTML (used for the prefilled examples).
+ */
+function escapeHtml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Render the web UI page.
+ *
+ * @returns A complete HTML document
+ */
+export function renderUi(): string {
+	return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>HTTP Message Signatures (RFC 9421) Verifier</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>HTTP Message Signatures (RFC 9421) Verifier</h1>
+<p class="warning">⚠️ Demo/testing tool. Keys pasted here are used only to verify this request; never paste production private keys.</p>
+<form id="verify-form">
+	<fieldset>
+		<legend>Signed request</legend>
+		<div class="mode">
+			<label><input type="radio" name="mode" value="raw" checked> Raw HTTP/1.1</label>
+			<label><input type="radio" name="mode" value="structured"> Method, URL, headers, body</label>
+		</div>
+		<div id="raw">
+			<label for="rawRequest">Raw request</label>
+			<textarea id="rawRequest" name="rawRequest" rows="12">${escapeHtml(EXAMPLE_RAW_REQUEST)}</textarea>
+		</div>
+		<div id="structured" hidden>
+			<label for="method">Method</label>
+			<input id="method" name="method" value="POST">
+			<label for="url">URL</label>
+			<input id="url" name="url" value="https://example.com/foo?param=Value&amp;Pet=dog">
+			<label for="headers">Headers (one "Name: value" per line, including Signature and Signature-Input)</label>
+			<textarea id="headers" name="headers"></textarea>
+			<label for="body">Body</label>
+			<textarea id="body" name="body"></textarea>
+		</div>
+	</fieldset>
+	<fieldset>
+		<legend>Key and options</legend>
+		<label for="publicKey">Public key (PEM)</label>
+		<textarea id="publicKey" name="publicKey" rows="5">${escapeHtml(EXAMPLE_PUBLIC_KEY)}</textarea>
+		<label for="hmacSecret">Or HMAC shared secret (base64)</label>
+		<input id="hmacSecret" name="hmacSecret">
+		<p>Leave both empty to use server-side keys (looked up by keyid).</p>
+		<label for="label">Labels (comma-separated, default all)</label>
+		<input id="label" name="label" placeholder="sig1">
+		<label for="policy">Policy</label>
+		<select id="policy" name="policy"><option value="all">all signatures must verify</option><option value="any">any signature may verify</option></select>
+	</fieldset>
+	<button type="submit">Verify</button>
+</form>
+<section id="output" aria-live="polite"></section>
+<script>${SCRIPT}</script>
+</body>
+</html>`;
+}
@@ -2,15 +2,22 @@
  * Core HTTP Message Signatures (RFC 9421) verification logic.
  * 
  * This module contains the pure verification logic for HTTP message signatures,
- * separated from the Cloudflare Worker handler and web UI.
+ * separated from the Cloudflare Worker handler and web UI. Signed requests and
+ * signed responses (with the request they answer) are verified alike.
  * 
  * @see https://www.rfc-editor.org/rfc/rfc9421.html
  */
 
-import { verify, type Algorithm, type Parameters } from 'http-message-sig';
-import { createPublicKey, verify as cryptoVerify } from 'node:crypto';
+import { verify, type Algorithm, type Parameters, type RequestLike, type ResponseLike } from 'http-message-sig';
+import { constants, createHmac, createPublicKey, timingSafeEqual, verify as cryptoVerify, type KeyObject } from 'node:crypto';
+import { certificateKeyResolver, isCertificatePem, type CertificateIdentity } from './certificates';
 import { algorithmMap } from './config';
-import { normalizePem } from './utils';
+import { signatureBaseDebug, type SignatureDebug } from './debug';
+import { checkContentDigest } from './digest';
+import { errorCode, VerificationError, type VerificationErrorCode } from './errors';
+import { checkKeyAlgorithm, DEFAULT_MIN_RSA_BITS, inferAlgorithm, keyFingerprint, type KeyPolicy } from './keys';
+import { checkCoverage, checkTimestamps, coveredComponents, type CoverageRequirements, type TimestampPolicy } from './policy';
+import { normalizePem, splitDictionary } from './utils';
 
 /**
  * Result of signature verification.
@@ -18,19 +25,170 @@ import { normalizePem } from './utils';
 export interface VerificationResult {
 	verified: boolean;
 	error?: string;
+	/** Signature label from the Signature / Signature-Input dictionaries (e.g. sig1) */
+	label?: string;
+	/** keyid, algorithm and covered components, once Signature-Input was parsed */
+	keyid?: string;
+	alg?: string;
+	components?: string[];
+	/** Machine-readable failure reason (see src/errors.ts), on every failure */
+	code?: VerificationErrorCode;
+	/** Structured context for the failure (e.g. missingComponents) */
+	details?: Record<string, unknown>;
+	/** Reconstructed signature base, when options.debug is set and the headers could be parsed */
+	debug?: SignatureDebug;
+	/** Identity from the signer's certificate, when verified with a certificate chain (see src/certificates.ts) */
+	signer?: CertificateIdentity;
+	/** SHA-256 fingerprint of the public key, once it was resolved (see keyFingerprint()); never set for shared secrets */
+	keyFingerprint?: string;
+}
+
+/**
+ * A signed response, with the request it answers.
+ *
+ * Response signatures may cover components of that request, flagged with
+ * `;req` (e.g. `"@method";req`), to bind the response to it (RFC 9421
+ * Section 2.4). `@status` is taken from the response.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9421.html#name-request-response-signature-
+ */
+export interface SignedResponse {
+	response: Response;
+	/** The originating request; needed when the signature covers `;req` components */
+	request?: Request;
+}
+
+/**
+ * A message whose signatures are verified: a request, or a response.
+ */
+export type SignedMessage = Request | SignedResponse;
+
+/**
+ * Whether every selected signature must verify, or at least one.
+ */
+export type SignaturePolicy = 'all' | 'any';
+
+/**
+ * Result of verifying several labeled signatures on one request.
+ */
+export interface MultiVerificationResult {
+	/** Overall outcome under `policy` */
+	verified: boolean;
+	policy: SignaturePolicy;
+	/** One result per verified label, in order */
+	signatures: VerificationResult[];
+}
+
+/**
+ * Policy applied on top of the cryptographic check.
+ */
+export interface VerificationOptions {
+	/** Verify only the signature with this label. Required when the request carries several. */
+	label?: string;
+	/** Limits on `created` / `expires` (see src/policy.ts). Only the library's own expiry check applies when omitted. */
+	timestamps?: TimestampPolicy;
+	/** Components and parameters every signature must cover (see src/policy.ts) */
+	required?: CoverageRequirements;
+	/** Nonce replay protection (see src/nonces.ts). Nonces are not checked when omitted. */
+	replayGuard?: ReplayGuard;
+	/** Include the reconstructed signature base in the result (see src/debug.ts) */
+	debug?: boolean;
+	/** Minimum RSA key size, accepted algorithms and algorithm inference (see src/keys.ts). RSA keys need 2048 bits and `alg` is required when omitted. */
+	keyPolicy?: KeyPolicy;
+	/** PEM CA certificates that certificate chains passed as `key` must lead to (see src/certificates.ts) */
+	trustAnchors?: string;
+	/** Current time in Unix seconds, for tests. Defaults to the system clock. */
+	now?: number;
+}
+
+/**
+ * A verification key resolved for one signature.
+ *
+ * `key` is a public key for asymmetric algorithms, or a secret key
+ * (see createSecretKey) for hmac-sha256.
+ *
+ * `algorithms` restricts which `alg` values the key may be used with.
+ * When omitted (e.g. a key supplied in a header), any supported algorithm is accepted.
+ *
+ * `required` lists components and parameters signatures by this key must
+ * cover, on top of the global requirements.
+ *
+ * `signer` is the verified identity behind the key, for keys taken from a
+ * certificate chain.
+ */
+export interface ResolvedKey {
+	key: KeyObject;
+	algorithms?: Algorithm[];
+	required?: CoverageRequirements;
+	signer?: CertificateIdentity;
+}
+
+/**
+ * Looks up the key for a signature from its Signature-Input parameters
+ * (and its label, for per-signature request headers such as Signature-Agent).
+ *
+ * Resolvers throw with a descriptive message when no usable key exists
+ * (unknown keyid, revoked, expired, ...). See registryKeyResolver().
+ */
+export type KeyResolver = (params: Parameters, label?: string) => Promise<ResolvedKey>;
+
+/**
+ * Checks a cryptographically valid signature for replay.
+ *
+ * Called only after the signature verified, so forged requests cannot use up
+ * nonces. Throws a VerificationError when the signature must be rejected.
+ * See nonceReplayGuard().
+ */
+export type ReplayGuard = (params: Parameters) => Promise<void>;
+
+/**
+ * Build a KeyResolver for a single PEM-encoded public key.
+ *
+ * Used for the demo x-public-key-pem header, where the same key is used
+ * regardless of the keyid in Signature-Input. A PEM certificate chain is
+ * checked against `options.trustAnchors` first (see src/certificates.ts).
+ */
+function pemKeyResolver(pemKey: string, { trustAnchors, now }: VerificationOptions): KeyResolver {
+	if (isCertificatePem(pemKey)) {
+		return certificateKeyResolver(pemKey, trustAnchors, now);
+	}
+
+	return async () => {
+		try {
+			/**
+			 * Parse the PEM-encoded public key into a KeyObject.
+			 *
+			 * createPublicKey() supports multiple formats:
+			 * - PEM (what we use): -----BEGIN PUBLIC KEY----- base64 -----END PUBLIC KEY-----
+			 * - DER: Raw binary format
+			 * - JWK: JSON Web Key format
+			 *
+			 * The parsed KeyObject can be used with crypto.verify() for
+			 * signature verification with various algorithms.
+			 *
+			 * @throws Error if PEM format is invalid or key type is unsupported
+			 */
+			const normalizedPem = normalizePem(pemKey);
+			return { key: createPublicKey(normalizedPem) };
+		} catch (err) {
+			throw new VerificationError('key_parse_error', `Failed to parse public key: ${err instanceof Error ? err.message : String(err)}`);
+		}
+	};
 }
 
 /**
  * Verify an HTTP message signature using RFC 9421.
  * 
  * This function:
- * 1. Parses the provided PEM-encoded public key
+ * 1. Resolves the public key (a PEM string, or a KeyResolver such as the key registry)
  * 2. Uses the http-message-sig library to reconstruct the signature base
  * 3. Verifies the cryptographic signature using Node.js crypto
- * 4. Returns verification result
+ * 4. Checks Content-Digest against the body when the signature covers it
+ * 5. Returns verification result
  * 
- * @param request - The HTTP request containing Signature and Signature-Input headers
- * @param pemKey - PEM-encoded public key (single-line or multi-line format)
+ * @param message - The HTTP request, or response (see SignedResponse), containing Signature and Signature-Input headers (its body is read from a clone)
+ * @param key - PEM-encoded public key or certificate chain (single-line or multi-line format), or a KeyResolver
+ * @param options - Timestamp policy, coverage requirements, replay guard and other checks beyond the signature itself
  * @returns Verification result indicating success or failure with error details
  * 
  * @throws Never throws - all errors are caught and returned in VerificationResult
@@ -45,7 +203,14 @@ export interface VerificationResult {
  * }
  * ```
  */
-export async function verifySignature(request: Request, pemKey: string): Promise<VerificationResult> {
+export async function verifySignature(message: SignedMessage, key: string | KeyResolver, options: VerificationOptions = {}): Promise<VerificationResult> {
+	const resolveKey = typeof key === 'string' ? pemKeyResolver(key, options) : key;
+	const signed = signedMessage(message);
+	const label = options.label ?? splitDictionary(signed.headers.get('signature-input') ?? '').keys().next().value;
+	let parsed: Pick<VerificationResult, 'keyid' | 'alg' | 'components' | 'debug' | 'keyFingerprint'> = {};
+	let signer: CertificateIdentity | undefined;
+	const keyPolicy = options.keyPolicy ?? { minRsaBits: DEFAULT_MIN_RSA_BITS, inferAlgorithm: false };
+
 	try {
 		/**
 		 * Verify the HTTP message signature per RFC 9421.
@@ -63,99 +228,324 @@ export async function verifySignature(request: Request, pemKey: string): Promise
 		 * 
 		 * @see https://www.rfc-editor.org/rfc/rfc9421.html#name-signature-verification
 		 */
-		await verify(request, async (data: string, signature: Uint8Array, params: Parameters) => {
-			// Parse the PEM-encoded public key
-			let publicKey;
-			try {
-				/**
-				 * Parse the PEM-encoded public key into a KeyObject.
-				 * 
-				 * createPublicKey() supports multiple formats:
-				 * - PEM (what we use): -----BEGIN PUBLIC KEY----- base64 -----END PUBLIC KEY-----
-				 * - DER: Raw binary format
-				 * - JWK: JSON Web Key format
-				 * 
-				 * The parsed KeyObject can be used with crypto.verify() for
-				 * signature verification with various algorithms.
-				 * 
-				 * @throws Error if PEM format is invalid or key type is unsupported
-				 */
-				const normalizedPem = normalizePem(pemKey);
-				publicKey = createPublicKey(normalizedPem);
-			} catch (err) {
-				throw new Error(`Failed to parse public key: ${err instanceof Error ? err.message : String(err)}`);
+		const view = options.label ? selectSignature(signed, options.label) : signed;
+		const verifiable = message instanceof Request || !message.request ? view : { response: view as ResponseLike, request: message.request };
+		await verify(verifiable, async (data: string, signature: Uint8Array, params: Parameters) => {
+			parsed = {
+				keyid: params.keyid,
+				alg: params.alg,
+				components: coveredComponents(data),
+				debug: options.debug ? signatureBaseDebug(data, params) : undefined,
+			};
+
+			// Reject stale or future-dated signatures before doing any key lookup
+			if (options.timestamps) {
+				checkTimestamps(params, options.timestamps, options.now ?? Math.floor(Date.now() / 1000));
 			}
 
+			// Resolve the key (header PEM/secret, or server-side registry/secret store)
+			const { key: verificationKey, algorithms, required, signer: keySigner } = await resolveKey(params, label);
+			parsed.keyFingerprint = keyFingerprint(verificationKey);
+
+			// A valid signature over too little of the request authenticates nothing
+			checkCoverage(data, params, options.required, required);
+
 			/**
 			 * Extract and validate the signature algorithm.
 			 * 
-			 * RFC 9421 requires the 'alg' parameter in Signature-Input header.
+			 * RFC 9421 uses the 'alg' parameter in Signature-Input header.
 			 * Example: sig1=(...);alg="ecdsa-p256-sha256"
 			 * 
+			 * When 'alg' is absent, the algorithm must come from the key itself
+			 * (RFC 9421 Section 3.2, step 6). A server-side key registered for
+			 * exactly one algorithm determines it - this is how the RFC's
+			 * Appendix B examples, which omit 'alg', are meant to be verified.
+			 * With keyPolicy.inferAlgorithm, any key whose type fits a single
+			 * algorithm (Ed25519, EC P-256 / P-384, shared secret) determines it too.
+			 * 
 			 * We validate that:
-			 * 1. The 'alg' parameter is present
+			 * 1. An algorithm is known (parameter or key)
 			 * 2. The algorithm is in our supported list (algorithmMap)
+			 * 3. The key is allowed to be used with it
+			 * 4. The key's type, curve and size fit it (see src/keys.ts)
 			 * 
 			 * Without a valid algorithm, we cannot verify the signature.
 			 * 
 			 * @see https://www.rfc-editor.org/rfc/rfc9421.html#name-signature-algorithm
 			 */
-			if (!params.alg || !(params.alg in algorithmMap)) {
-				throw new Error(`Unsupported or missing algorithm: ${params.alg}`);
+			const alg =
+				params.alg ??
+				(algorithms?.length === 1 ? algorithms[0] : undefined) ??
+				(keyPolicy.inferAlgorithm ? inferAlgorithm(verificationKey) : undefined);
+			if (!alg) {
+				throw new VerificationError(
+					'unsupported_algorithm',
+					`Unsupported or missing algorithm: no alg parameter, and ${keyPolicy.inferAlgorithm ? 'the key fits several algorithms' : 'algorithm inference is disabled'}`
+				);
+			}
+			if (!Object.hasOwn(algorithmMap, alg)) {
+				throw new VerificationError('unsupported_algorithm', `Unsupported or missing algorithm: ${alg}`);
 			}
+			if (keyPolicy.algorithms && !keyPolicy.algorithms.includes(alg as Algorithm)) {
+				throw new VerificationError('unsupported_algorithm', `Algorithm ${alg} is not accepted; use ${keyPolicy.algorithms.join(', ')}`, {
+					algorithms: keyPolicy.algorithms,
+				});
+			}
+			parsed.alg = alg;
 
-			/**
-			 * Map RFC 9421 algorithm name to Node.js hash algorithm.
-			 * 
-			 * For most algorithms, we need to specify the hash separately:
-			 * - ecdsa-p256-sha256 → sha256
-			 * - rsa-pss-sha512 → sha512
-			 * 
-			 * Exception: Ed25519 uses null (built-in SHA-512)
-			 */
-			const hashAlgorithm = algorithmMap[params.alg as Algorithm];
+			// Registered keys may be restricted to specific algorithms
+			if (algorithms?.length && !algorithms.includes(alg as Algorithm)) {
+				throw new VerificationError('algorithm_key_mismatch', `Algorithm ${alg} is not allowed for key ${params.keyid}`);
+			}
+
+			// An ECDSA signature checked with an RSA key is a key problem, not a bad signature
+			checkKeyAlgorithm(alg as Algorithm, verificationKey, keyPolicy);
+
+			if (!(await verifyWithAlgorithm(alg as Algorithm, verificationKey, data, signature))) {
+				throw new VerificationError('invalid_signature', 'Invalid signature');
+			}
 
 			/**
-			 * Verify the cryptographic signature.
-			 * 
-			 * crypto.verify() checks that:
-			 * 1. The signature was created by the private key matching this public key
-			 * 2. The signature covers the exact data provided
-			 * 3. The signature hasn't been tampered with
-			 * 
-			 * Parameters:
-			 * - hashAlgorithm: Hash function used (sha256, sha384, sha512, or null for ed25519)
-			 * - data: The signature base string from RFC 9421 (what was signed)
-			 * - publicKey: The parsed public key
-			 * - signature: The signature bytes from the Signature header
-			 * 
-			 * Returns:
-			 * - true: Signature is valid (request authentically signed with matching private key)
-			 * - false: Signature is invalid (wrong key, tampered data, or corrupted signature)
-			 * 
-			 * @see https://nodejs.org/api/crypto.html#cryptoverifyalgorithm-data-key-signature-callback
+			 * The signature covers the Content-Digest header, not the body.
+			 * Recompute the digest so a swapped body is caught (RFC 9530).
+			 * A response signature may cover the request's digest too (`;req`).
 			 */
-			const isValid = cryptoVerify(hashAlgorithm, Buffer.from(data), publicKey, signature);
+			if (/^"content-digest": /m.test(data)) {
+				checkContentDigest(signed.headers.get('content-digest') ?? '', await signed.clone().arrayBuffer());
+			}
+			if (!(message instanceof Request) && message.request && /^"content-digest";req: /m.test(data)) {
+				checkContentDigest(message.request.headers.get('content-digest') ?? '', await message.request.clone().arrayBuffer());
+			}
 
-			if (!isValid) {
-				throw new Error('Invalid signature');
+			// Only an authentic signature may record its nonce
+			if (options.replayGuard) {
+				await options.replayGuard(params);
 			}
+			signer = keySigner;
 		});
 
 		// Verification succeeded
-		return { verified: true };
+		return { verified: true, label, ...parsed, signer };
 	} catch (error) {
 		/**
-		 * Common verification errors:
-		 * - "Invalid signature": Signature doesn't match (wrong key, tampered data)
-		 * - "Failed to parse public key": Invalid PEM format
-		 * - "Unsupported or missing algorithm": Invalid or missing 'alg' parameter
-		 * - "Missing Signature header": No Signature header in request
-		 * - "Missing Signature-Input header": No Signature-Input header in request
+		 * Common verification errors (code in parentheses, see src/errors.ts):
+		 * - "Invalid signature" (invalid_signature): Signature doesn't match (wrong key, tampered data)
+		 * - "Failed to parse public key" (key_parse_error): Invalid PEM format
+		 * - "Unsupported or missing algorithm" (unsupported_algorithm): Invalid or missing 'alg' parameter
+		 * - "Unknown key" / "Key revoked" / "Key expired" (unknown_key, key_revoked, key_expired): Key registry lookup failed
+		 * - "Message does not contain Signature header" (missing_signature)
+		 * - "Message does not contain Signature-Input header" (missing_signature_input)
+		 * - "Signature expired" / "Signature created in the future" / ...: Timestamp policy violated
+		 * - "Signature label not found" (label_not_found): options.label is not in the Signature / Signature-Input headers
+		 * - "Certificate expired" / "Certificate is not issued by a trust anchor" / ...: Certificate chain rejected
+		 *
+		 * Errors thrown by http-message-sig while parsing the headers are plain
+		 * Errors; errorCode() recognizes them by message. Its own "Signature
+		 * expired" check gets the same code as ours.
 		 */
+		const message = error instanceof Error ? error.message : String(error);
 		return {
 			verified: false,
-			error: error instanceof Error ? error.message : String(error),
+			error: message,
+			label,
+			...parsed,
+			code: errorCode(error),
+			details: error instanceof VerificationError ? error.details : undefined,
 		};
 	}
 }
+
+/**
+ * The message carrying the Signature headers and the body: the request, or the response.
+ */
+function signedMessage(message: SignedMessage): Request | Response {
+	return message instanceof Request ? message : message.response;
+}
+
+/**
+ * Verify several labeled signatures on one message.
+ *
+ * RFC 9421 allows any number of signatures per message, each with its own
+ * label in the Signature and Signature-Input dictionaries - e.g. one from the
+ * client and one added by a proxy. Each label is verified independently
+ * (own key, own policy checks) and the outcome combined under `policy`.
+ *
+ * @param message - The HTTP request, or response (see SignedResponse), containing Signature and Signature-Input headers
+ * @param key - PEM-encoded public key, or a KeyResolver (used for every label)
+ * @param options - Verification options, plus the labels to verify (default: all present) and the policy (default: all)
+ * @returns Overall outcome and one result per label
+ *
+ * @throws Never throws - all errors are returned in the per-label results
+ */
+export async function verifySignatures(
+	message: SignedMessage,
+	key: string | KeyResolver,
+	{ labels, policy = 'all', ...options }: Omit<VerificationOptions, 'label'> & { labels?: string[]; policy?: SignaturePolicy } = {}
+): Promise<MultiVerificationResult> {
+	const selected = labels?.length ? labels : [...splitDictionary(signedMessage(message).headers.get('signature-input') ?? '').keys()];
+
+	// No labels at all: let verifySignature report the missing headers
+	if (!selected.length) {
+		return { verified: false, policy, signatures: [await verifySignature(message, key, options)] };
+	}
+
+	const signatures: VerificationResult[] = [];
+	for (const label of selected) {
+		signatures.push(await verifySignature(message, key, { ...options, label }));
+	}
+
+	return {
+		verified: policy === 'any' ? signatures.some((result) => result.verified) : signatures.every((result) => result.verified),
+		policy,
+		signatures,
+	};
+}
+
+/**
+ * View of a request or response that carries only one of its signatures.
+ *
+ * http-message-sig verifies single-signature messages only, so every other
+ * header is passed through while Signature and Signature-Input are narrowed
+ * to the selected label.
+ *
+ * @throws VerificationError if either header, or the label in it, is missing
+ */
+function selectSignature(message: Request | Response, label: string): RequestLike | ResponseLike {
+	// Report absent headers like http-message-sig does for unlabeled verification
+	for (const [name, code] of [
+		['Signature-Input', 'missing_signature_input'],
+		['Signature', 'missing_signature'],
+	] as const) {
+		if (!message.headers.has(name)) {
+			throw new VerificationError(code, `Message does not contain ${name} header`);
+		}
+	}
+
+	const input = splitDictionary(message.headers.get('signature-input') ?? '').get(label);
+	const signature = splitDictionary(message.headers.get('signature') ?? '').get(label);
+	if (input === undefined || signature === undefined) {
+		throw new VerificationError('label_not_found', `Signature label not found: ${label}`);
+	}
+
+	return {
+		...(message instanceof Response ? { status: message.status } : { method: message.method, url: message.url }),
+		headers: {
+			get: (name: string) => {
+				switch (name.toLowerCase()) {
+					case 'signature-input':
+						return `${label}=${input}`;
+					case 'signature':
+						return `${label}=${signature}`;
+					default:
+						return message.headers.get(name);
+				}
+			},
+			set: () => {
+				throw new Error('Message view is read-only');
+			},
+		},
+	};
+}
+
+/**
+ * Verify signature bytes over a signature base with one RFC 9421 algorithm.
+ *
+ * This is the cryptographic step of verification, separated from message
+ * parsing so it can be checked directly against known signature bases
+ * (e.g. the RFC 9421 Appendix B test vectors).
+ *
+ * @param alg - RFC 9421 algorithm name
+ * @param key - Public key (asymmetric algorithms) or secret key (hmac-sha256)
+ * @param data - The signature base string
+ * @param signature - The signature bytes from the Signature header
+ * @returns Whether the signature is valid
+ * @throws Error if the key type does not fit the algorithm
+ */
+export async function verifyWithAlgorithm(alg: Algorithm, key: KeyObject, data: string, signature: Uint8Array): Promise<boolean> {
+	/**
+	 * Look up the Node.js crypto parameters for the algorithm.
+	 * 
+	 * For most algorithms, we need to specify the hash separately:
+	 * - ecdsa-p256-sha256 → sha256 (with IEEE P1363 signature encoding)
+	 * - rsa-pss-sha512 → sha512 (with PSS padding and a 64-byte salt)
+	 * 
+	 * Exception: Ed25519 uses null (built-in SHA-512)
+	 */
+	const { hash, padding, saltLength, dsaEncoding } = algorithmMap[alg];
+
+	if (alg === 'hmac-sha256') {
+		/**
+		 * HMAC is symmetric: recompute the MAC over the signature base
+		 * with the shared secret and compare it to the received signature.
+		 *
+		 * timingSafeEqual() avoids leaking how many leading bytes matched,
+		 * which would otherwise let an attacker forge a MAC byte by byte.
+		 *
+		 * @see https://www.rfc-editor.org/rfc/rfc9421.html#name-hmac-using-sha-256
+		 */
+		if (key.type !== 'secret') {
+			throw new VerificationError('algorithm_key_mismatch', 'Algorithm hmac-sha256 requires a shared secret, not a public key');
+		}
+		const expected = createHmac(hash!, key).update(data).digest();
+		return expected.length === signature.length && timingSafeEqual(expected, signature);
+	}
+
+	if (key.type !== 'public') {
+		throw new VerificationError('algorithm_key_mismatch', `Algorithm ${alg} requires a public key, not a shared secret`);
+	}
+
+	/**
+	 * Verify the cryptographic signature.
+	 * 
+	 * crypto.verify() checks that:
+	 * 1. The signature was created by the private key matching this public key
+	 * 2. The signature covers the exact data provided
+	 * 3. The signature hasn't been tampered with
+	 * 
+	 * Parameters:
+	 * - hash: Hash function used (sha256, sha384, sha512, or null for ed25519)
+	 * - data: The signature base string from RFC 9421 (what was signed)
+	 * - key: The public key, plus padding / saltLength (RSA) or dsaEncoding (ECDSA) where needed
+	 * - signature: The signature bytes from the Signature header
+	 * 
+	 * Returns:
+	 * - true: Signature is valid (request authentically signed with matching private key)
+	 * - false: Signature is invalid (wrong key, tampered data, or corrupted signature)
+	 * 
+	 * @see https://nodejs.org/api/crypto.html#cryptoverifyalgorithm-data-key-signature-callback
+	 */
+	if (padding === constants.RSA_PKCS1_PSS_PADDING) {
+		return verifyRsaPss(hash!, saltLength!, key, data, signature);
+	}
+
+	if (padding === undefined && dsaEncoding === undefined) {
+		return cryptoVerify(hash, Buffer.from(data), key, signature);
+	}
+
+	/**
+	 * The Workers runtime's node:crypto only accepts key material (not a
+	 * KeyObject) inside an options object, so pass the key as SPKI PEM.
+	 */
+	const pem = key.export({ type: 'spki', format: 'pem' });
+	return cryptoVerify(hash, Buffer.from(data), { key: pem, padding, saltLength, dsaEncoding }, signature);
+}
+
+/**
+ * Verify an RSA-PSS signature through WebCrypto.
+ *
+ * The Workers runtime's node:crypto ignores the `padding` option and always
+ * verifies RSA signatures as PKCS#1 v1.5, so RSA-PSS goes through
+ * crypto.subtle, which takes the salt length explicitly.
+ *
+ * @see https://developer.mozilla.org/en-US/docs/Web/API/RsaPssParams
+ */
+async function verifyRsaPss(hash: string, saltLength: number, key: KeyObject, data: string, signature: Uint8Array): Promise<boolean> {
+	const cryptoKey = await crypto.subtle.importKey(
+		'spki',
+		key.export({ type: 'spki', format: 'der' }),
+		{ name: 'RSA-PSS', hash: hash.replace('sha', 'SHA-') },
+		false,
+		['verify']
+	);
+	return crypto.subtle.verify({ name: 'RSA-PSS', saltLength }, cryptoKey, signature, new TextEncoder().encode(data));
+}
@@ -0,0 +1,169 @@
+/**
+ * Test Suite for the per-algorithm crypto parameters.
+ *
+ * Checks the verifier against the RFC 9421 Appendix B test vectors (signed
+ * by other implementations, so they catch parameter mistakes that a local
+ * sign/verify round trip would mirror) and round-trips every supported
+ * algorithm through the worker.
+ */
+
+import { createExecutionContext, env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import type { Algorithm } from 'http-message-sig';
+import { createPublicKey, sign } from 'node:crypto';
+import worker from '../src/index';
+import { putKey } from '../src/registry';
+import { verifyWithAlgorithm } from '../src/verification';
+import {
+	createSigner,
+	ED25519_PRIVATE_KEY,
+	ED25519_PUBLIC_KEY,
+	P256_PRIVATE_KEY,
+	P256_PUBLIC_KEY,
+	P384_PRIVATE_KEY,
+	P384_PUBLIC_KEY,
+	RSA_PRIVATE_KEY,
+	RSA_PSS_RFC_PUBLIC_KEY,
+	RSA_PUBLIC_KEY,
+	signRequest,
+	singleLinePem,
+} from './helpers';
+
+/**
+ * RFC 9421 Appendix B.1.5 test-shared-secret.
+ */
+const SHARED_SECRET = 'uzvJfB4u3N0Jy4T7NZ75MDVcr8zSTInedJtkgcu46YW4XByzNJjxBdtjUkdJPBtbmHhIDi6pcl8jsasjlTMtDQ==';
+
+/**
+ * The RFC 9421 Appendix B.2 test request.
+ */
+function createRfcRequest(headers: Record<string, string>): Request {
+	return new Request('https://example.com/foo?param=Value&Pet=dog', {
+		method: 'POST',
+		headers: {
+			Host: 'example.com',
+			Date: 'Tue, 20 Apr 2021 02:07:55 GMT',
+			'Content-Type': 'application/json',
+			'Content-Digest': 'sha-512=:WZDPaVn/7XgHaAy8pmojAkGWoRx2UFChF41A2svX+TaPm+AbwAgBWnrIiYllu7BNNyealdVLvRwEmTHWXvJwew==:',
+			'Content-Length': '18',
+			...headers,
+		},
+		body: '{"hello": "world"}',
+	});
+}
+
+/**
+ * The RFC vectors omit `alg`, so the keys are registered pinned to a single
+ * algorithm, which the verifier then uses (RFC 9421 Section 3.2).
+ */
+async function fetchJson(request: Request, testEnv: Partial<Env> = {}): Promise<any> {
+	const response = await worker.fetch(request, { ...env, ALLOW_HEADER_KEYS: 'false', ...testEnv } as Env, createExecutionContext());
+	return { status: response.status, ...((await response.json()) as any) };
+}
+
+describe('Algorithms - RFC 9421 Appendix B Vectors', () => {
+	it('should verify B.2.1 (minimal rsa-pss-sha512 signature)', async () => {
+		await putKey(env.KEYS!, { keyid: 'test-key-rsa-pss', publicKey: RSA_PSS_RFC_PUBLIC_KEY, algorithms: ['rsa-pss-sha512'], createdAt: 1618884473 });
+		const request = createRfcRequest({
+			'Signature-Input': 'sig-b21=();created=1618884473;keyid="test-key-rsa-pss";nonce="b3k2pp5k7z-50gnwp.yemd"',
+			Signature:
+				'sig-b21=:d2pmTvmbncD3xQm8E9ZV2828BjQWGgiwAaw5bAkgibUopemLJcWDy/lkbbHAve4cRAtx31Iq786U7it++wgGxbtRxf8Udx7zFZsckzXaJMkA7ChG52eSkFxykJeNqsrWH5S+oxNFlD4dzVuwe8DhTSja8xxbR/Z2cOGdCbzR72rgFWhzx2VjBqJzsPLMIQKhO4DGezXehhWwE56YCE+O6c0mKZsfxVrogUvA4HELjVKWmAvtl6UnCh8jYzuVG5WSb/QEVPnP5TmcAnLH1g+s++v6d4s8m0gCw1fV5/SITLq9mhho8K3+7EPYTU8IU1bLhdxO5Nyt8C8ssinQ98Xw9Q==:',
+		});
+
+		const data = await fetchJson(request);
+
+		expect(data.verified).toBe(true);
+	});
+
+	it('should verify B.2.4 (ecdsa-p256-sha256 response signature)', async () => {
+		const base = [
+			'"@status": 200',
+			'"content-type": application/json',
+			'"content-digest": sha-512=:mEWXIS7MaLRuGgxOBdODa3xqM1XdEvxoYhvlCFJ41QJgJc4GTsPp29l5oGX69wWdXymyU0rjJuahq4l5aGgfLQ==:',
+			'"content-length": 23',
+			'"@signature-params": ("@status" "content-type" "content-digest" "content-length");created=1618884473;keyid="test-key-ecc-p256"',
+		].join('\n');
+		const signature = Buffer.from('wNmSUAhwb5LxtOtOpNa6W5xj067m5hFrj0XQ4fvpaCLx0NKocgPquLgyahnzDnDAUy5eCdlYUEkLIj+32oiasw==', 'base64');
+
+		expect(await verifyWithAlgorithm('ecdsa-p256-sha256', createPublicKey(P256_PUBLIC_KEY), base, signature)).toBe(true);
+	});
+
+	it('should verify B.2.5 (hmac-sha256 signature)', async () => {
+		const request = createRfcRequest({
+			'Signature-Input': 'sig-b25=("date" "@authority" "content-type");created=1618884473;keyid="test-shared-secret"',
+			Signature: 'sig-b25=:pxcQw6G3AjtMBQjwo8XzkZf/bws5LelbaMk5rGIGtE8=:',
+		});
+
+		const data = await fetchJson(request, { HMAC_SECRETS: JSON.stringify({ 'test-shared-secret': SHARED_SECRET }) });
+
+		expect(data.verified).toBe(true);
+	});
+
+	it('should verify B.2.6 (ed25519 signature)', async () => {
+		await putKey(env.KEYS!, { keyid: 'test-key-ed25519', publicKey: ED25519_PUBLIC_KEY, algorithms: ['ed25519'], createdAt: 1618884473 });
+		const request = createRfcRequest({
+			'Signature-Input':
+				'sig-b26=("date" "@method" "@path" "@authority" "content-type" "content-length");created=1618884473;keyid="test-key-ed25519"',
+			Signature: 'sig-b26=:wqcAqbmYJ2ji2glfAMaRy4gruYYnx2nEFN2HN6jrnDnQCK1u02Gb04v9EDgwUPiu4A0w6vuQv5lIp5WPpBKRCw==:',
+		});
+
+		const data = await fetchJson(request);
+
+		expect(data.verified).toBe(true);
+	});
+
+	it('should not infer an algorithm for keys registered with several', async () => {
+		await putKey(env.KEYS!, { keyid: 'multi-alg-key', publicKey: ED25519_PUBLIC_KEY, algorithms: ['ed25519', 'ecdsa-p256-sha256'], createdAt: 1618884473 });
+		const request = createRfcRequest({
+			'Signature-Input':
+				'sig-b26=("date" "@method" "@path" "@authority" "content-type" "content-length");created=1618884473;keyid="multi-alg-key"',
+			Signature: 'sig-b26=:wqcAqbmYJ2ji2glfAMaRy4gruYYnx2nEFN2HN6jrnDnQCK1u02Gb04v9EDgwUPiu4A0w6vuQv5lIp5WPpBKRCw==:',
+		});
+
+		const data = await fetchJson(request);
+
+		expect(data.verified).toBe(false);
+		expect(data.error).toContain('Unsupported or missing algorithm');
+	});
+});
+
+describe('Algorithms - Round Trips', () => {
+	const cases: [Algorithm, string, string][] = [
+		['ed25519', ED25519_PRIVATE_KEY, ED25519_PUBLIC_KEY],
+		['ecdsa-p256-sha256', P256_PRIVATE_KEY, P256_PUBLIC_KEY],
+		['ecdsa-p384-sha384', P384_PRIVATE_KEY, P384_PUBLIC_KEY],
+		['rsa-pss-sha512', RSA_PRIVATE_KEY, RSA_PUBLIC_KEY],
+		['rsa-v1_5-sha256', RSA_PRIVATE_KEY, RSA_PUBLIC_KEY],
+	];
+
+	it.each(cases)('should verify %s signatures', async (alg, privateKey, publicKey) => {
+		const request = await signRequest(
+			new Request('http://localhost:8787/verify', { method: 'POST', headers: { 'x-public-key-pem': singleLinePem(publicKey) } }),
+			createSigner(privateKey, alg, `test-key-${alg}`)
+		);
+
+		const data = await fetchJson(request, { ALLOW_HEADER_KEYS: 'true' });
+
+		expect(data.verified).toBe(true);
+	});
+
+	it('should not accept rsa-v1_5-sha256 signatures as rsa-pss-sha512', async () => {
+		const signer = createSigner(RSA_PRIVATE_KEY, 'rsa-v1_5-sha256', 'test-key-rsa');
+		const request = await signRequest(
+			new Request('http://localhost:8787/verify', { method: 'POST', headers: { 'x-public-key-pem': singleLinePem(RSA_PUBLIC_KEY) } }),
+			{ ...signer, alg: 'rsa-pss-sha512' }
+		);
+
+		const data = await fetchJson(request, { ALLOW_HEADER_KEYS: 'true' });
+
+		expect(data.verified).toBe(false);
+		expect(data.error).toBe('Invalid signature');
+	});
+
+	it('should reject DER-encoded ECDSA signatures', async () => {
+		const base = '"@signature-params": ();created=1618884473;keyid="test-key-ecc-p256"';
+		const der = sign('sha256', Buffer.from(base), { key: P256_PRIVATE_KEY, dsaEncoding: 'der' });
+
+		expect(await verifyWithAlgorithm('ecdsa-p256-sha256', createPublicKey(P256_PUBLIC_KEY), base, der)).toBe(false);
+	});
+});
@@ -0,0 +1,146 @@
+/**
+ * Test Suite for the audit log (AUDIT_DB, local D1) and GET /audit.
+ *
+ * Entries are written with ctx.waitUntil, so each request waits for its
+ * execution context before the log is queried.
+ */
+
+import { createExecutionContext, env, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { recordAudit } from '../src/audit';
+import { createSigner, ED25519_ALT_PUBLIC_KEY, ED25519_PRIVATE_KEY, ED25519_PUBLIC_KEY, signRequest, singleLinePem } from './helpers';
+
+const ADMIN_TOKEN = 'audit-test-token';
+const ED25519_FINGERPRINT = 'sha256:NFcWBst6DXG-N35nHdzMrioWntdzNZghQSkjHNMMSjw';
+
+const signer = createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'test-key-ed25519');
+
+async function fetchWorker(request: Request, testEnv: Partial<Env> = {}): Promise<Response> {
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(request, { ...env, ALLOW_HEADER_KEYS: 'true', ADMIN_TOKEN, ...testEnv } as Env, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+function createRequest(publicKey = ED25519_PUBLIC_KEY): Request {
+	return new Request('http://localhost:8787/verify', {
+		method: 'POST',
+		headers: { 'x-public-key-pem': singleLinePem(publicKey), 'cf-connecting-ip': '203.0.113.7' },
+	});
+}
+
+async function queryAudit(query = '', token = ADMIN_TOKEN, testEnv: Partial<Env> = {}): Promise<any> {
+	const response = await fetchWorker(
+		new Request(`http://localhost:8787/audit${query}`, { headers: { Authorization: `Bearer ${token}` } }),
+		testEnv
+	);
+	return { status: response.status, ...((await response.json()) as any) };
+}
+
+describe('Audit - Recording', () => {
+	it('should record a verified signature without the key', async () => {
+		await fetchWorker(await signRequest(createRequest(), signer));
+
+		const { entries } = await queryAudit();
+
+		expect(entries).toEqual([
+			{
+				id: expect.any(Number),
+				timestamp: expect.any(Number),
+				label: 'sig1',
+				keyid: 'test-key-ed25519',
+				alg: 'ed25519',
+				components: ['@method', '@path', '@authority'],
+				verified: true,
+				clientIp: '203.0.113.7',
+				keyFingerprint: ED25519_FINGERPRINT,
+			},
+		]);
+		expect(JSON.stringify(entries)).not.toContain('MCowBQYDK2VwAyEA');
+	});
+
+	it('should record failures with their code', async () => {
+		await fetchWorker(await signRequest(createRequest(ED25519_ALT_PUBLIC_KEY), signer));
+		await fetchWorker(createRequest());
+
+		const { entries } = await queryAudit();
+
+		expect(entries.map(({ verified, code }: any) => ({ verified, code }))).toEqual([
+			{ verified: false, code: 'missing_signature_input' },
+			{ verified: false, code: 'invalid_signature' },
+		]);
+		expect(entries[1].keyFingerprint).not.toBe(ED25519_FINGERPRINT);
+	});
+
+	it('should record captured requests verified with /verify/message', async () => {
+		const captured = await signRequest(new Request('https://example.com/orders', { method: 'POST' }), signer);
+
+		await fetchWorker(
+			new Request('http://localhost:8787/verify/message', {
+				method: 'POST',
+				body: JSON.stringify({
+					request: { method: 'POST', url: captured.url, headers: Object.fromEntries(captured.headers) },
+					publicKey: ED25519_PUBLIC_KEY,
+				}),
+			})
+		);
+
+		const { entries } = await queryAudit();
+
+		expect(entries[0]).toMatchObject({ keyid: 'test-key-ed25519', verified: true });
+	});
+});
+
+describe('Audit - GET /audit', () => {
+	const entry = { label: 'sig1', alg: 'ed25519', components: ['@method'], verified: true };
+
+	async function seed(): Promise<void> {
+		await recordAudit(env.AUDIT_DB!, [
+			{ ...entry, timestamp: 1000, keyid: 'client-a' },
+			{ ...entry, timestamp: 2000, keyid: 'client-b', verified: false, code: 'invalid_signature' },
+			{ ...entry, timestamp: 3000, keyid: 'client-a', verified: false, code: 'signature_expired' },
+			{ ...entry, timestamp: 4000, keyid: 'client-a' },
+		]);
+	}
+
+	it('should filter by keyid, outcome and time', async () => {
+		await seed();
+
+		const failures = await queryAudit('?verified=false&since=2000&until=4000');
+		const clientA = await queryAudit('?keyid=client-a&code=signature_expired');
+
+		expect(failures.entries.map((e: any) => e.keyid)).toEqual(['client-a', 'client-b']);
+		expect(clientA.entries.map((e: any) => e.timestamp)).toEqual([3000]);
+	});
+
+	it('should page through entries, newest first', async () => {
+		await seed();
+
+		const first = await queryAudit('?limit=3');
+		const second = await queryAudit(`?limit=3&cursor=${first.cursor}`);
+
+		expect(first.entries.map((e: any) => e.timestamp)).toEqual([4000, 3000, 2000]);
+		expect(second.entries.map((e: any) => e.timestamp)).toEqual([1000]);
+		expect(second.cursor).toBeUndefined();
+	});
+
+	it('should require the admin token', async () => {
+		const data = await queryAudit('', 'wrong-token');
+
+		expect(data.status).toBe(401);
+		expect(data.error).toBe('Unauthorized');
+	});
+
+	it('should reject invalid filters', async () => {
+		expect((await queryAudit('?verified=maybe')).error).toBe('verified must be true or false');
+		expect((await queryAudit('?limit=0')).error).toBe('limit must be an integer from 1 to 1000');
+	});
+
+	it('should be disabled without the AUDIT_DB binding', async () => {
+		const data = await queryAudit('', ADMIN_TOKEN, { AUDIT_DB: undefined });
+
+		expect(data.status).toBe(503);
+		expect(data.error).toBe('Audit log disabled');
+	});
+});
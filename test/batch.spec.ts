@@ -0,0 +1,170 @@
+/**
+ * Test Suite for POST /verify/batch (JSON arrays and HAR files of captured requests).
+ */
+
+import { createExecutionContext, env } from 'cloudflare:test';
+import { describe, it, expect, vi } from 'vitest';
+import worker from '../src/index';
+import { createSigner, ED25519_ALT_PUBLIC_KEY, ED25519_PRIVATE_KEY, ED25519_PUBLIC_KEY, signRequest, singleLinePem } from './helpers';
+
+const signer = createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'test-key-ed25519');
+const keyHeaders = { 'x-public-key-pem': singleLinePem(ED25519_PUBLIC_KEY) };
+
+interface CapturedRequest {
+	method: string;
+	url: string;
+	headers: Record<string, string>;
+	body?: string;
+}
+
+function fetchWorker(body: unknown, testEnv: Partial<Env> = {}, headers: Record<string, string> = {}, query = ''): Promise<Response> {
+	const request = new Request(`http://localhost:8787/verify/batch${query}`, { method: 'POST', headers, body: JSON.stringify(body) });
+	return worker.fetch(request, { ...env, ALLOW_HEADER_KEYS: 'true', ...testEnv } as Env, createExecutionContext());
+}
+
+/**
+ * A captured request, signed and described as for POST /verify/message.
+ */
+async function capture(url: string, body?: string): Promise<CapturedRequest> {
+	const signed = await signRequest(new Request(url, { method: body ? 'POST' : 'GET', body }), signer);
+	return { method: signed.method, url: signed.url, headers: Object.fromEntries(signed.headers), body };
+}
+
+/**
+ * The signature header lines of a captured request, as raw HTTP/1.1 text.
+ */
+function signatureLines({ headers }: CapturedRequest): string {
+	return `Signature-Input: ${headers['signature-input']}\nSignature: ${headers.signature}\n`;
+}
+
+describe('Batch - JSON', () => {
+	it('should verify each request and count the outcomes', async () => {
+		const orders = await capture('https://example.com/orders', '{"id": 1}');
+		const refunds = await capture('https://example.com/refunds?id=7');
+
+		const response = await fetchWorker([
+			{ request: orders, publicKey: ED25519_PUBLIC_KEY },
+			{ request: refunds, publicKey: ED25519_ALT_PUBLIC_KEY },
+			{ raw: `GET /refunds?id=7 HTTP/1.1\nHost: example.com\n${signatureLines(refunds)}`, publicKey: ED25519_PUBLIC_KEY },
+		]);
+		const data = (await response.json()) as any;
+
+		expect(response.status).toBe(200);
+		expect(data.summary).toEqual({ total: 3, verified: 2, failed: 1, codes: { invalid_signature: 1 } });
+		expect(data.results.map(({ index, verified }: any) => ({ index, verified }))).toEqual([
+			{ index: 0, verified: true },
+			{ index: 1, verified: false },
+			{ index: 2, verified: true },
+		]);
+		expect(data.results[0]).toMatchObject({ method: 'POST', url: 'https://example.com/orders', policy: 'all' });
+		expect(data.results[0].signatures[0]).toMatchObject({ label: 'sig1', keyid: 'test-key-ed25519', alg: 'ed25519' });
+	});
+
+	it('should use the key headers of the batch request for entries without a key', async () => {
+		const orders = await capture('https://example.com/orders');
+
+		const data = (await (await fetchWorker([{ request: orders }], {}, keyHeaders)).json()) as any;
+
+		expect(data.summary.verified).toBe(1);
+	});
+
+	it('should fail entries that cannot be rebuilt or have no usable key on their own', async () => {
+		const orders = await capture('https://example.com/orders');
+
+		const entries = [{ request: { url: '/orders' } }, { request: orders }, null, { request: orders, publicKey: 5 }];
+
+		const data = (await (await fetchWorker(entries, { KEYS: undefined })).json()) as any;
+
+		expect(data.summary).toEqual({ total: 4, verified: 0, failed: 4, codes: { invalid_request: 2, missing_key: 1, key_parse_error: 1 } });
+		expect(data.results[0]).toEqual({
+			index: 0,
+			verified: false,
+			error: 'Request url must be an absolute URL: /orders',
+			code: 'invalid_request',
+		});
+		expect(data.results[1]).toMatchObject({ index: 1, url: 'https://example.com/orders', code: 'missing_key' });
+		expect(data.results[3]).toMatchObject({
+			index: 3,
+			error: 'publicKey must be PEM text or a JWK / JWKS object',
+			code: 'key_parse_error',
+		});
+	});
+
+	it('should only say which entries verified in the strict profile', async () => {
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const orders = await capture('https://example.com/orders');
+
+		const data = (await (
+			await fetchWorker(
+				[
+					{ request: orders, publicKey: ED25519_PUBLIC_KEY },
+					{ request: orders, publicKey: ED25519_ALT_PUBLIC_KEY },
+				],
+				{ RESPONSE_PROFILE: 'strict' },
+				{},
+				'?debug=true'
+			)
+		).json()) as any;
+		vi.restoreAllMocks();
+
+		expect(data).toEqual({
+			summary: { total: 2, verified: 1, failed: 1 },
+			results: [
+				{ index: 0, verified: true },
+				{ index: 1, verified: false },
+			],
+		});
+	});
+});
+
+describe('Batch - HAR', () => {
+	it('should verify the requests of a HAR file', async () => {
+		const orders = await capture('https://example.com/orders', '{"id": 1}');
+		const har = {
+			log: {
+				version: '1.2',
+				entries: [
+					{
+						startedDateTime: '2025-01-01T00:00:00.000Z',
+						request: {
+							method: orders.method,
+							url: orders.url,
+							httpVersion: 'HTTP/2',
+							headers: [
+								{ name: ':authority', value: 'example.com' },
+								{ name: ':path', value: '/orders' },
+								...Object.entries(orders.headers).map(([name, value]) => ({ name, value })),
+							],
+							postData: { mimeType: 'application/json', text: orders.body },
+						},
+						response: { status: 200 },
+					},
+					{ startedDateTime: '2025-01-01T00:00:01.000Z' },
+				],
+			},
+		};
+
+		const data = (await (await fetchWorker(har, {}, keyHeaders)).json()) as any;
+
+		expect(data.summary).toEqual({ total: 2, verified: 1, failed: 1, codes: { invalid_request: 1 } });
+		expect(data.results[0]).toMatchObject({ index: 0, method: 'POST', url: 'https://example.com/orders', verified: true });
+		expect(data.results[1].error).toBe('HAR entry has no request');
+	});
+});
+
+describe('Batch - Rejections', () => {
+	it('should reject bodies that are neither an array nor a HAR file', async () => {
+		const response = await fetchWorker({ request: {} });
+
+		expect(response.status).toBe(400);
+		expect(((await response.json()) as any).error).toBe('Request body must be a JSON array of requests or a HAR file');
+	});
+
+	it('should reject batches of more than 1000 requests', async () => {
+		const response = await fetchWorker(new Array(1001).fill({}));
+
+		expect(response.status).toBe(400);
+		expect(((await response.json()) as any).error).toBe('A batch holds at most 1000 requests');
+	});
+});
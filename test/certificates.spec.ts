@@ -0,0 +1,154 @@
+/**
+ * Test Suite for X.509 certificate chains as signer keys.
+ *
+ * The leaf certificates hold the RFC 9421 B.1.4 test-key-ed25519 public key
+ * and are issued by an EC P-256 intermediate under an EC P-256 root:
+ * - LEAF: valid 2025-01-01 to 2125-01-01, subjectAltName DNS:client.example, URI:https://client.example/
+ * - EXPIRED_LEAF: same key, valid 2020-01-01 to 2021-01-01
+ */
+
+import { createExecutionContext, env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { verifySignature } from '../src/verification';
+import { createSigner, ED25519_PRIVATE_KEY, signRequest, singleLinePem } from './helpers';
+
+const ROOT_CA = `-----BEGIN CERTIFICATE-----
+MIIBsTCCAVagAwIBAgICEAAwCgYIKoZIzj0EAwIwPjEVMBMGA1UEAwwMVGVzdCBS
+b290IENBMSUwIwYDVQQKDBxIVFRQIE1lc3NhZ2UgU2lnbmF0dXJlcyBEZW1vMCAX
+DTI1MDEwMTAwMDAwMFoYDzIxMjUwMTAxMDAwMDAwWjA+MRUwEwYDVQQDDAxUZXN0
+IFJvb3QgQ0ExJTAjBgNVBAoMHEhUVFAgTWVzc2FnZSBTaWduYXR1cmVzIERlbW8w
+WTATBgcqhkjOPQIBBggqhkjOPQMBBwNCAAQZYIqGx1ErjtXU9eMw8cIF7DWQ1P80
+jFQ65dWRZFOyyBqf2eaSncTPBWvRvm6FUyTu0WgeYaXwEkWWqtN8yT5Uo0IwQDAP
+BgNVHRMBAf8EBTADAQH/MA4GA1UdDwEB/wQEAwICBDAdBgNVHQ4EFgQUg3Q0Vm5E
+IakhVkeF9YyPV6B+6AswCgYIKoZIzj0EAwIDSQAwRgIhAIAD7DhU+hG+yJQ7ZSRs
+eq8gqr3rFTrrffRJJnKrLfSIAiEAoWO2ZoSy4jSsXEcZn6a8RSyT5j4AmH9Z0tvx
+70IwhQA=
+-----END CERTIFICATE-----`;
+
+const INTERMEDIATE_CA = `-----BEGIN CERTIFICATE-----
+MIIB2jCCAX+gAwIBAgICEAEwCgYIKoZIzj0EAwIwPjEVMBMGA1UEAwwMVGVzdCBS
+b290IENBMSUwIwYDVQQKDBxIVFRQIE1lc3NhZ2UgU2lnbmF0dXJlcyBEZW1vMCAX
+DTI1MDEwMTAwMDAwMFoYDzIxMjUwMTAxMDAwMDAwWjBGMR0wGwYDVQQDDBRUZXN0
+IEludGVybWVkaWF0ZSBDQTElMCMGA1UECgwcSFRUUCBNZXNzYWdlIFNpZ25hdHVy
+ZXMgRGVtbzBZMBMGByqGSM49AgEGCCqGSM49AwEHA0IABEbrF4mnN6r9JsuHmcOX
+inkb9YwzrL2afp8wlx/FXwDUAtfo1yytj1JUu4386UNgPy4faHe3V/ds5SeB1284
+lsejYzBhMA8GA1UdEwEB/wQFMAMBAf8wDgYDVR0PAQH/BAQDAgIEMB0GA1UdDgQW
+BBRfTdLv4BsHfXGsSL4hSz7Y85HM9DAfBgNVHSMEGDAWgBSDdDRWbkQhqSFWR4X1
+jI9XoH7oCzAKBggqhkjOPQQDAgNJADBGAiEA+u4p5ziXBuZ2GBq0FsCSBtCNOIHG
+2ZlnDQFpaMgJ88UCIQDSMFn/E5b3tKOKXhde4sGvjY77gTo/j3RuSZYTROxacQ==
+-----END CERTIFICATE-----`;
+
+const LEAF = `-----BEGIN CERTIFICATE-----
+MIIB4DCCAYWgAwIBAgICEAIwCgYIKoZIzj0EAwIwRjEdMBsGA1UEAwwUVGVzdCBJ
+bnRlcm1lZGlhdGUgQ0ExJTAjBgNVBAoMHEhUVFAgTWVzc2FnZSBTaWduYXR1cmVz
+IERlbW8wIBcNMjUwMTAxMDAwMDAwWhgPMjEyNTAxMDEwMDAwMDBaMEAxFzAVBgNV
+BAMMDmNsaWVudC5leGFtcGxlMSUwIwYDVQQKDBxIVFRQIE1lc3NhZ2UgU2lnbmF0
+dXJlcyBEZW1vMCowBQYDK2VwAyEAJrQLj5P/89iXES9+vFgrIy29clF9CC/oPPsw
+3c5D0bujgZUwgZIwDAYDVR0TAQH/BAIwADAOBgNVHQ8BAf8EBAMCB4AwMgYDVR0R
+BCswKYIOY2xpZW50LmV4YW1wbGWGF2h0dHBzOi8vY2xpZW50LmV4YW1wbGUvMB0G
+A1UdDgQWBBSld6mmDRW80AdUJjeLGtd/reEZqDAfBgNVHSMEGDAWgBRfTdLv4BsH
+fXGsSL4hSz7Y85HM9DAKBggqhkjOPQQDAgNJADBGAiEAk32shccrQVe7b4TcUr8l
+BpLxClCwXQVEmFxep1RuL44CIQDmD63pOpF7RERfUpKdsQTpG2kTDAva9q91pmBp
+jmwgHA==
+-----END CERTIFICATE-----`;
+
+const EXPIRED_LEAF = `-----BEGIN CERTIFICATE-----
+MIIB3TCCAYOgAwIBAgICEAMwCgYIKoZIzj0EAwIwRjEdMBsGA1UEAwwUVGVzdCBJ
+bnRlcm1lZGlhdGUgQ0ExJTAjBgNVBAoMHEhUVFAgTWVzc2FnZSBTaWduYXR1cmVz
+IERlbW8wHhcNMjAwMTAxMDAwMDAwWhcNMjEwMTAxMDAwMDAwWjBAMRcwFQYDVQQD
+DA5jbGllbnQuZXhhbXBsZTElMCMGA1UECgwcSFRUUCBNZXNzYWdlIFNpZ25hdHVy
+ZXMgRGVtbzAqMAUGAytlcAMhACa0C4+T//PYlxEvfrxYKyMtvXJRfQgv6Dz7MN3O
+Q9G7o4GVMIGSMAwGA1UdEwEB/wQCMAAwDgYDVR0PAQH/BAQDAgeAMDIGA1UdEQQr
+MCmCDmNsaWVudC5leGFtcGxlhhdodHRwczovL2NsaWVudC5leGFtcGxlLzAdBgNV
+HQ4EFgQUpXeppg0VvNAHVCY3ixrXf63hGagwHwYDVR0jBBgwFoAUX03S7+AbB31x
+rEi+IUs+2PORzPQwCgYIKoZIzj0EAwIDSAAwRQIgQqxgLcm9E0Uoim7CpaPBZiRk
+xkMhV1OUz4k9PaVYLUoCIQD2mfIcNCQ/2CrMW9mHMC4HziYhshne49ljwutlEGBs
+4w==
+-----END CERTIFICATE-----`;
+
+const signer = createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'client.example');
+
+function createRequest(chain: string): Request {
+	return new Request('http://localhost:8787/verify', { method: 'POST', headers: { 'x-public-key-pem': singleLinePem(chain) } });
+}
+
+async function fetchJson(request: Request, trustAnchors: string | undefined = ROOT_CA): Promise<any> {
+	const response = await worker.fetch(
+		request,
+		{ ...env, ALLOW_HEADER_KEYS: 'true', TRUST_ANCHORS: trustAnchors } as Env,
+		createExecutionContext()
+	);
+	return { status: response.status, ...((await response.json()) as any) };
+}
+
+describe('Certificates - Chain Validation', () => {
+	it('should verify with a chain leading to a trust anchor and report the signer', async () => {
+		const request = await signRequest(createRequest(`${LEAF}\n${INTERMEDIATE_CA}`), signer);
+
+		const data = await fetchJson(request);
+
+		expect(data.verified).toBe(true);
+		expect(data.signatures[0].signer).toMatchObject({
+			subject: 'CN=client.example, O=HTTP Message Signatures Demo',
+			subjectAltName: 'DNS:client.example, URI:https://client.example/',
+			issuer: 'CN=Test Intermediate CA, O=HTTP Message Signatures Demo',
+			notAfter: '2125-01-01T00:00:00.000Z',
+		});
+	});
+
+	it('should accept an intermediate configured as trust anchor', async () => {
+		const request = await signRequest(createRequest(LEAF), signer);
+
+		const data = await fetchJson(request, INTERMEDIATE_CA);
+
+		expect(data.verified).toBe(true);
+	});
+
+	it('should reject a chain missing its intermediate', async () => {
+		const request = await signRequest(createRequest(LEAF), signer);
+
+		const data = await fetchJson(request);
+
+		expect(data.verified).toBe(false);
+		expect(data.code).toBe('untrusted_certificate');
+		expect(data.error).toContain('Certificate is not issued by a trust anchor');
+	});
+
+	it('should reject a chain whose anchor is not configured', async () => {
+		const request = await signRequest(createRequest(`${LEAF}\n${INTERMEDIATE_CA}\n${ROOT_CA}`), signer);
+
+		const data = await fetchJson(request, EXPIRED_LEAF);
+
+		expect(data.code).toBe('untrusted_certificate');
+	});
+
+	it('should reject an expired leaf', async () => {
+		const request = await signRequest(createRequest(`${EXPIRED_LEAF}\n${INTERMEDIATE_CA}`), signer);
+
+		const data = await fetchJson(request);
+
+		expect(data.code).toBe('certificate_expired');
+		expect(data.details.notAfter).toBe('2021-01-01T00:00:00.000Z');
+	});
+
+	it('should refuse certificates when no trust anchors are configured', async () => {
+		const request = await signRequest(createRequest(`${LEAF}\n${INTERMEDIATE_CA}`), signer);
+
+		const data = await fetchJson(request, '');
+
+		expect(data.error).toBe('Certificates cannot be verified: no trust anchors configured (TRUST_ANCHORS)');
+	});
+
+	it('should check every certificate of the path at options.now', async () => {
+		const request = await signRequest(new Request('https://example.com/'), signer);
+
+		const result = await verifySignature(request, `${EXPIRED_LEAF}\n${INTERMEDIATE_CA}`, {
+			trustAnchors: ROOT_CA,
+			now: Date.parse('2020-06-01T00:00:00Z') / 1000,
+		});
+
+		expect(result.code).toBe('certificate_not_yet_valid');
+		expect(result.error).toBe('Certificate not yet valid: CN=Test Intermediate CA, O=HTTP Message Signatures Demo');
+	});
+});
@@ -0,0 +1,104 @@
+/**
+ * Test Suite for signature challenges (401 with Accept-Signature).
+ *
+ * The challenge is derived from the REQUIRED_COMPONENTS, REQUIRED_PARAMETERS,
+ * SIGNATURE_MAX_AGE, NONCE_REQUIRED_KEYS and SIGNATURE_ALGORITHMS Env vars.
+ */
+
+import { createExecutionContext, env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { acceptSignature, signatureChallenge } from '../src/challenge';
+import { appendSignature, createSigner, ED25519_ALT_PUBLIC_KEY, ED25519_PRIVATE_KEY, ED25519_PUBLIC_KEY, signRequest, singleLinePem } from './helpers';
+
+const signer = createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'test-key-ed25519');
+
+function createRequest(headers: Record<string, string> = { 'x-public-key-pem': singleLinePem(ED25519_PUBLIC_KEY) }): Request {
+	return new Request('http://localhost:8787/verify', { method: 'POST', headers });
+}
+
+function fetchWorker(request: Request, testEnv: Partial<Env> = {}): Promise<Response> {
+	return worker.fetch(request, { ...env, ALLOW_HEADER_KEYS: 'true', ...testEnv } as Env, createExecutionContext());
+}
+
+describe('Challenge - Unsigned Requests', () => {
+	it('should answer 401 with an Accept-Signature derived from the policy', async () => {
+		const response = await fetchWorker(createRequest(), {
+			REQUIRED_COMPONENTS: '@method,@authority,content-digest',
+			REQUIRED_PARAMETERS: 'keyid',
+			SIGNATURE_MAX_AGE: '300',
+			NONCE_REQUIRED_KEYS: '*',
+			SIGNATURE_ALGORITHMS: 'ed25519',
+		});
+		const data = (await response.json()) as any;
+
+		expect(response.status).toBe(401);
+		expect(response.headers.get('Accept-Signature')).toBe('sig1=("@method" "@authority" "content-digest");created;keyid;nonce;alg="ed25519"');
+		expect(data.code).toBe('missing_signature_input');
+	});
+
+	it('should challenge before asking for a key', async () => {
+		const response = await fetchWorker(createRequest({}), { KEYS: undefined, REQUIRED_COMPONENTS: '@method' });
+
+		expect(response.status).toBe(401);
+		expect(response.headers.get('Accept-Signature')).toBe('sig1=("@method")');
+	});
+
+	it('should send the challenge with problem details', async () => {
+		const response = await fetchWorker(createRequest({ accept: 'application/problem+json' }), { REQUIRED_COMPONENTS: '@method' });
+		const problem = (await response.json()) as any;
+
+		expect(response.headers.get('content-type')).toBe('application/problem+json');
+		expect(response.headers.get('Accept-Signature')).toBe('sig1=("@method")');
+		expect(problem).toMatchObject({ status: 401, code: 'missing_signature_input' });
+	});
+});
+
+describe('Challenge - Under-Signed Requests', () => {
+	it('should challenge the label whose coverage is insufficient', async () => {
+		const request = await appendSignature(createRequest(), signer, 'app', { components: ['@method'] });
+
+		const response = await fetchWorker(request, { REQUIRED_COMPONENTS: '@method,@path' });
+
+		expect(response.status).toBe(401);
+		expect(response.headers.get('Accept-Signature')).toBe('app=("@method" "@path")');
+		expect(((await response.json()) as any).code).toBe('insufficient_coverage');
+	});
+
+	it('should challenge a signature without a nonce when every key needs one', async () => {
+		const request = await signRequest(createRequest(), signer);
+
+		const response = await fetchWorker(request, { NONCE_REQUIRED_KEYS: '*' });
+
+		expect(response.status).toBe(401);
+		expect(response.headers.get('Accept-Signature')).toBe('sig1=();nonce');
+		expect(((await response.json()) as any).code).toBe('missing_nonce');
+	});
+
+	it('should keep 400 without a challenge for signatures that do not verify', async () => {
+		const request = await signRequest(createRequest({ 'x-public-key-pem': singleLinePem(ED25519_ALT_PUBLIC_KEY) }), signer);
+
+		const response = await fetchWorker(request);
+
+		expect(response.status).toBe(400);
+		expect(response.headers.has('Accept-Signature')).toBe(false);
+	});
+});
+
+describe('Challenge - Accepted Algorithms', () => {
+	it('should reject algorithms outside SIGNATURE_ALGORITHMS', async () => {
+		const request = await signRequest(createRequest(), signer);
+
+		const data = (await (await fetchWorker(request, { SIGNATURE_ALGORITHMS: 'ecdsa-p256-sha256, rsa-pss-sha512' })).json()) as any;
+
+		expect(data.code).toBe('unsupported_algorithm');
+		expect(data.error).toBe('Algorithm ed25519 is not accepted; use ecdsa-p256-sha256, rsa-pss-sha512');
+	});
+
+	it('should only give alg a value when a single algorithm is accepted', () => {
+		const keyPolicy = { minRsaBits: 2048, inferAlgorithm: false };
+
+		expect(acceptSignature(signatureChallenge({ keyPolicy: { ...keyPolicy, algorithms: ['ed25519', 'ecdsa-p256-sha256'] } }))).toBe('sig1=();alg');
+		expect(acceptSignature(signatureChallenge({ required: { components: ['x-"quoted"'] } }), 'sig2')).toBe('sig2=("x-\\"quoted\\"")');
+	});
+});
@@ -0,0 +1,142 @@
+/**
+ * Test Suite for the required covered-components policy.
+ *
+ * Requirements come from the REQUIRED_COMPONENTS / REQUIRED_PARAMETERS Env
+ * vars (global) and from the `required` field of registered keys (per key).
+ */
+
+import { createExecutionContext, env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { coveredComponents } from '../src/policy';
+import { createSigner, ED25519_PRIVATE_KEY, ED25519_PUBLIC_KEY, signRequest, singleLinePem } from './helpers';
+
+const ADMIN_TOKEN = 'test-admin-token';
+const signer = createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'test-key-ed25519');
+
+function createRequest(headers: Record<string, string> = { 'x-public-key-pem': singleLinePem(ED25519_PUBLIC_KEY) }): Request {
+	return new Request('http://localhost:8787/verify', {
+		method: 'POST',
+		headers: { 'content-type': 'application/json', ...headers },
+		body: '{"hello": "world"}',
+	});
+}
+
+async function fetchJson(request: Request, testEnv: Partial<Env> = {}): Promise<any> {
+	const response = await worker.fetch(request, { ...env, ALLOW_HEADER_KEYS: 'true', ADMIN_TOKEN, ...testEnv } as Env, createExecutionContext());
+	return { status: response.status, ...((await response.json()) as any) };
+}
+
+async function registerKey(body: unknown): Promise<any> {
+	const request = new Request('http://localhost:8787/admin/keys', {
+		method: 'POST',
+		headers: { Authorization: `Bearer ${ADMIN_TOKEN}`, 'content-type': 'application/json' },
+		body: JSON.stringify(body),
+	});
+	return fetchJson(request);
+}
+
+describe('Coverage - Global Requirements', () => {
+	it('should reject a signature that does not cover the required components', async () => {
+		const request = await signRequest(createRequest(), signer, { components: ['@method', '@path'] });
+
+		const data = await fetchJson(request, { REQUIRED_COMPONENTS: '@method, @authority, content-type' });
+
+		expect(data.status).toBe(401);
+		expect(data.verified).toBe(false);
+		expect(data.code).toBe('insufficient_coverage');
+		expect(data.error).toBe('Signature is missing required components @authority, content-type');
+		expect(data.details).toEqual({ missingComponents: ['@authority', 'content-type'], missingParameters: [] });
+	});
+
+	it('should accept a signature that covers the required components', async () => {
+		const request = await signRequest(createRequest(), signer, { components: ['@method', '@authority', 'content-type'] });
+
+		const data = await fetchJson(request, { REQUIRED_COMPONENTS: '@method,@authority,Content-Type' });
+
+		expect(data.verified).toBe(true);
+	});
+
+	it('should reject a signature over no components at all', async () => {
+		const request = await signRequest(createRequest(), signer, { components: [] });
+
+		const data = await fetchJson(request, { REQUIRED_COMPONENTS: '@method' });
+
+		expect(data.code).toBe('insufficient_coverage');
+		expect(data.details.missingComponents).toEqual(['@method']);
+	});
+
+	it('should reject a signature without the required parameters', async () => {
+		const request = await signRequest(createRequest(), signer);
+
+		const data = await fetchJson(request, { REQUIRED_PARAMETERS: 'created,keyid,tag' });
+
+		expect(data.code).toBe('insufficient_coverage');
+		expect(data.error).toBe('Signature is missing required parameters tag');
+		expect(data.details.missingParameters).toEqual(['tag']);
+	});
+
+	it('should accept a signature with the required parameters', async () => {
+		const request = await signRequest(createRequest(), signer, { tag: 'web-bot-auth' });
+
+		const data = await fetchJson(request, { REQUIRED_PARAMETERS: 'created,keyid,tag' });
+
+		expect(data.verified).toBe(true);
+	});
+});
+
+describe('Coverage - Per-Key Requirements', () => {
+	it('should enforce the requirements registered with a key', async () => {
+		const registered = await registerKey({
+			keyid: 'coverage-key',
+			publicKey: ED25519_PUBLIC_KEY,
+			required: { components: ['content-type'], parameters: ['nonce'] },
+		});
+		expect(registered.status).toBe(201);
+
+		const keySigner = createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'coverage-key');
+		const rejected = await signRequest(createRequest({}), keySigner);
+		const accepted = await signRequest(createRequest({}), keySigner, {
+			components: ['@method', '@path', 'content-type'],
+			nonce: 'coverage-nonce',
+		});
+
+		const rejectedData = await fetchJson(rejected, { ALLOW_HEADER_KEYS: 'false' });
+		const acceptedData = await fetchJson(accepted, { ALLOW_HEADER_KEYS: 'false' });
+
+		expect(rejectedData.details).toEqual({ missingComponents: ['content-type'], missingParameters: ['nonce'] });
+		expect(acceptedData.verified).toBe(true);
+	});
+
+	it('should combine global and per-key requirements', async () => {
+		await registerKey({ keyid: 'combined-key', publicKey: ED25519_PUBLIC_KEY, required: { components: ['content-type'] } });
+
+		const request = await signRequest(createRequest({}), createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'combined-key'), {
+			components: ['@path'],
+		});
+
+		const data = await fetchJson(request, { ALLOW_HEADER_KEYS: 'false', REQUIRED_COMPONENTS: '@method' });
+
+		expect(data.details.missingComponents).toEqual(['@method', 'content-type']);
+	});
+
+	it('should reject registrations requiring unknown parameters', async () => {
+		const data = await registerKey({ keyid: 'bad-coverage-key', publicKey: ED25519_PUBLIC_KEY, required: { parameters: ['colour'] } });
+
+		expect(data.status).toBe(400);
+		expect(data.error).toBe('Unsupported required parameters: colour');
+	});
+});
+
+describe('Coverage - coveredComponents', () => {
+	it('should list component names from the signature base, without component parameters', () => {
+		const base = [
+			'"@method": POST',
+			'"@query-param";name="Pet": dog',
+			'"content-type": application/json',
+			'"@signature-params": ("@method" "@query-param";name="Pet" "Content-Type");created=1618884473;keyid="test-key-ed25519"',
+		].join('\n');
+
+		expect(coveredComponents(base)).toEqual(['@method', '@query-param', 'content-type']);
+	});
+});
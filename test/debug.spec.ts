@@ -0,0 +1,79 @@
+/**
+ * Test Suite for debug mode (?debug=true or the x-signature-debug header).
+ */
+
+import { createExecutionContext, env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { signatureBaseDebug } from '../src/debug';
+import { createSigner, ED25519_ALT_PUBLIC_KEY, ED25519_PRIVATE_KEY, ED25519_PUBLIC_KEY, signRequest, singleLinePem } from './helpers';
+
+const signer = createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'test-key-ed25519');
+
+function createRequest(url = 'http://localhost:8787/verify', publicKey = ED25519_PUBLIC_KEY): Request {
+	return new Request(url, {
+		method: 'POST',
+		headers: { 'content-type': 'application/json', 'x-public-key-pem': singleLinePem(publicKey) },
+		body: '{"hello": "world"}',
+	});
+}
+
+async function fetchJson(request: Request): Promise<any> {
+	const response = await worker.fetch(request, { ...env, ALLOW_HEADER_KEYS: 'true' } as Env, createExecutionContext());
+	return { status: response.status, ...((await response.json()) as any) };
+}
+
+describe('Debug - Signature Base Output', () => {
+	it('should include the signature base when ?debug=true is set', async () => {
+		const request = await signRequest(createRequest('http://localhost:8787/verify?debug=true'), signer, {
+			components: ['@method', '@authority', 'content-type'],
+			created: 1618884473,
+		});
+
+		const data = await fetchJson(request);
+		const { debug } = data.signatures[0];
+
+		expect(data.verified).toBe(true);
+		expect(debug.lines).toEqual([
+			'"@method": POST',
+			'"@authority": localhost:8787',
+			'"content-type": application/json',
+			'"@signature-params": ("@method" "@authority" "content-type");created=1618884473;keyid="test-key-ed25519";alg="ed25519"',
+		]);
+		expect(debug.signatureBase).toBe(debug.lines.join('\n'));
+		expect(debug.components).toEqual({ '"@method"': 'POST', '"@authority"': 'localhost:8787', '"content-type"': 'application/json' });
+		expect(debug.parameters).toEqual({ created: 1618884473, keyid: 'test-key-ed25519', alg: 'ed25519' });
+	});
+
+	it('should include the signature base of a failed signature via the x-signature-debug header', async () => {
+		const request = await signRequest(createRequest(undefined, ED25519_ALT_PUBLIC_KEY), signer);
+		request.headers.set('x-signature-debug', 'true');
+
+		const data = await fetchJson(request);
+
+		expect(data.error).toBe('Invalid signature');
+		expect(data.signatures[0].debug.components['"@path"']).toBe('/verify');
+	});
+
+	it('should not include the signature base by default', async () => {
+		const data = await fetchJson(await signRequest(createRequest(), signer));
+
+		expect(data.verified).toBe(true);
+		expect(data.signatures[0].debug).toBeUndefined();
+	});
+});
+
+describe('Debug - signatureBaseDebug', () => {
+	it('should keep component parameters in the identifiers', () => {
+		const base = [
+			'"@query-param";name="Pet": dog',
+			'"example-dict";sf: a=1, b=2',
+			'"@signature-params": ("@query-param";name="Pet" "example-dict";sf);created=1618884473',
+		].join('\n');
+
+		const debug = signatureBaseDebug(base, { created: new Date(1618884473 * 1000) } as any);
+
+		expect(debug.components).toEqual({ '"@query-param";name="Pet"': 'dog', '"example-dict";sf': 'a=1, b=2' });
+		expect(debug.parameters).toEqual({ created: 1618884473 });
+	});
+});
@@ -0,0 +1,109 @@
+/**
+ * Test Suite for Content-Digest (RFC 9530) verification.
+ *
+ * Digests below are the RFC 9530 / RFC 9421 examples for the body {"hello": "world"}.
+ */
+
+import { createExecutionContext, env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { parseContentDigest } from '../src/digest';
+import { createSigner, ED25519_PRIVATE_KEY, ED25519_PUBLIC_KEY, signRequest, singleLinePem } from './helpers';
+
+const BODY = '{"hello": "world"}';
+const SHA256_DIGEST = 'sha-256=:X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE=:';
+const SHA512_DIGEST = 'sha-512=:WZDPaVn/7XgHaAy8pmojAkGWoRx2UFChF41A2svX+TaPm+AbwAgBWnrIiYllu7BNNyealdVLvRwEmTHWXvJwew==:';
+
+const signer = createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'test-key-ed25519');
+const components = ['@method', '@path', 'content-digest'];
+
+function createRequest(contentDigest: string, body = BODY): Request {
+	return new Request('http://localhost:8787/verify', {
+		method: 'POST',
+		headers: {
+			'content-type': 'application/json',
+			'content-digest': contentDigest,
+			'x-public-key-pem': singleLinePem(ED25519_PUBLIC_KEY),
+		},
+		body,
+	});
+}
+
+/**
+ * Re-attach the signed headers to a different body, as an attacker would.
+ */
+function swapBody(request: Request, body: string): Request {
+	return new Request(request.url, { method: request.method, headers: request.headers, body });
+}
+
+async function fetchJson(request: Request): Promise<any> {
+	const response = await worker.fetch(request, { ...env, ALLOW_HEADER_KEYS: 'true' } as Env, createExecutionContext());
+	return { status: response.status, ...((await response.json()) as any) };
+}
+
+describe('Content-Digest - Verification', () => {
+	it('should verify a sha-512 digest that matches the body', async () => {
+		const data = await fetchJson(await signRequest(createRequest(SHA512_DIGEST), signer, { components }));
+
+		expect(data.verified).toBe(true);
+	});
+
+	it('should verify a sha-256 digest that matches the body', async () => {
+		const data = await fetchJson(await signRequest(createRequest(SHA256_DIGEST), signer, { components }));
+
+		expect(data.verified).toBe(true);
+	});
+
+	it('should reject a signed digest paired with a swapped body', async () => {
+		const signed = await signRequest(createRequest(SHA512_DIGEST), signer, { components });
+
+		const data = await fetchJson(swapBody(signed, '{"hello": "mallory"}'));
+
+		expect(data.status).toBe(400);
+		expect(data.verified).toBe(false);
+		expect(data.code).toBe('content_digest_mismatch');
+		expect(data.details.algorithm).toBe('sha-512');
+		expect(data.details.received).toBe(SHA512_DIGEST);
+		expect(data.details.expected).not.toBe(SHA512_DIGEST);
+	});
+
+	it('should require every supported digest in the header to match', async () => {
+		const wrong256 = 'sha-256=:AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA=:';
+
+		const data = await fetchJson(await signRequest(createRequest(`${SHA512_DIGEST}, ${wrong256}`), signer, { components }));
+
+		expect(data.code).toBe('content_digest_mismatch');
+		expect(data.details).toEqual({ algorithm: 'sha-256', expected: SHA256_DIGEST, received: wrong256 });
+	});
+
+	it('should reject a digest that uses no supported algorithm', async () => {
+		const data = await fetchJson(await signRequest(createRequest('md5=:+f2xdnpHmmmSlySvuh0L7Q==:'), signer, { components }));
+
+		expect(data.code).toBe('unsupported_digest_algorithm');
+	});
+
+	it('should not treat Object.prototype property names as digest algorithms', async () => {
+		const data = await fetchJson(await signRequest(createRequest('constructor=:AAAA:'), signer, { components }));
+
+		expect(data.code).toBe('unsupported_digest_algorithm');
+	});
+
+	it('should not check the digest when content-digest is not covered', async () => {
+		const signed = await signRequest(createRequest(SHA512_DIGEST), signer);
+
+		const data = await fetchJson(swapBody(signed, '{"hello": "mallory"}'));
+
+		expect(data.verified).toBe(true);
+	});
+});
+
+describe('Content-Digest - parseContentDigest', () => {
+	it('should parse every algorithm in the dictionary', () => {
+		const digests = parseContentDigest(`SHA-256=:abc=:, sha-512=:def=:`);
+
+		expect([...digests]).toEqual([
+			['sha-256', 'abc='],
+			['sha-512', 'def='],
+		]);
+	});
+});
@@ -0,0 +1,193 @@
+/**
+ * Test Suite for Signature-Agent key directories (Web Bot Auth).
+ *
+ * Directories are served by the fetchMock outbound mock; each test uses its
+ * own agent origin because fetched directories are cached per isolate.
+ */
+
+import { createExecutionContext, env, fetchMock } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { fetchDirectory, parseSignatureAgent } from '../src/directory';
+import { createSigner, ED25519_PRIVATE_KEY, signRequest } from './helpers';
+
+const DIRECTORY_PATH = '/.well-known/http-message-signatures-directory';
+
+/** RFC 9421 B.1.4 test-key-ed25519, and its RFC 7638 thumbprint */
+const ED25519_JWK = { kty: 'OKP', crv: 'Ed25519', x: 'JrQLj5P_89iXES9-vFgrIy29clF9CC_oPPsw3c5D0bs' };
+const ED25519_THUMBPRINT = 'poqkLGiymh_W0uP6PZFw-dvez3QJT5SolqXBCW38r0U';
+
+const signer = createSigner(ED25519_PRIVATE_KEY, 'ed25519', ED25519_THUMBPRINT);
+const components = ['@authority', 'signature-agent'];
+
+beforeAll(() => {
+	fetchMock.activate();
+	fetchMock.disableNetConnect();
+});
+
+afterEach(() => {
+	fetchMock.assertNoPendingInterceptors();
+});
+
+function serveDirectory(origin: string, body: unknown = { keys: [ED25519_JWK] }, status = 200): void {
+	fetchMock
+		.get(origin)
+		.intercept({ path: DIRECTORY_PATH })
+		.reply(status, JSON.stringify(body), { headers: { 'content-type': 'application/http-message-signatures-directory+json' } });
+}
+
+function createRequest(signatureAgent: string): Request {
+	return new Request('https://example.com/', { headers: { 'Signature-Agent': signatureAgent } });
+}
+
+async function fetchJson(request: Request, testEnv: Partial<Env> = {}): Promise<any> {
+	const response = await worker.fetch(
+		request,
+		{ ...env, ALLOW_HEADER_KEYS: 'false', SIGNATURE_AGENTS: '*', ...testEnv } as Env,
+		createExecutionContext()
+	);
+	return { status: response.status, ...((await response.json()) as any) };
+}
+
+describe('Directory - Signature-Agent', () => {
+	it('should verify with the key from the agent directory', async () => {
+		serveDirectory('https://agent-one.example');
+		const request = await signRequest(createRequest('"https://agent-one.example"'), signer, { components, tag: 'web-bot-auth' });
+
+		const data = await fetchJson(request);
+
+		expect(data.verified).toBe(true);
+		expect(data.signatures[0].keyid).toBe(ED25519_THUMBPRINT);
+	});
+
+	it('should serve repeated lookups from the cache', async () => {
+		serveDirectory('https://agent-cached.example');
+		const first = await signRequest(createRequest('"https://agent-cached.example"'), signer, { components });
+		const second = await signRequest(createRequest('"https://agent-cached.example"'), signer, { components, nonce: 'second' });
+
+		expect((await fetchJson(first)).verified).toBe(true);
+		expect((await fetchJson(second)).verified).toBe(true);
+	});
+
+	it('should read the agent of the signature label from a dictionary', async () => {
+		serveDirectory('https://agent-dict.example');
+		const request = await signRequest(createRequest('other="https://other.example", sig1="https://agent-dict.example"'), signer, {
+			components,
+		});
+
+		const data = await fetchJson(request);
+
+		expect(data.verified).toBe(true);
+	});
+
+	it('should require the signature to cover signature-agent', async () => {
+		serveDirectory('https://agent-uncovered.example');
+		const request = await signRequest(createRequest('"https://agent-uncovered.example"'), signer, { components: ['@authority'] });
+
+		const data = await fetchJson(request);
+
+		expect(data.code).toBe('insufficient_coverage');
+		expect(data.details.missingComponents).toEqual(['signature-agent']);
+	});
+
+	it('should not fetch directories of agents outside SIGNATURE_AGENTS', async () => {
+		const request = await signRequest(createRequest('"https://agent-blocked.example"'), signer, { components });
+
+		const data = await fetchJson(request, { SIGNATURE_AGENTS: 'https://agent-one.example' });
+
+		expect(data.error).toBe('Signature-Agent not allowed: https://agent-blocked.example');
+	});
+
+	it('should reject a keyid that is not in the directory', async () => {
+		serveDirectory('https://agent-other-key.example');
+		const request = await signRequest(createRequest('"https://agent-other-key.example"'), createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'nope'), {
+			components,
+		});
+
+		const data = await fetchJson(request);
+
+		expect(data.error).toBe(`No key in the key directory https://agent-other-key.example${DIRECTORY_PATH} matches keyid nope`);
+	});
+
+	it('should reject directories above SIGNATURE_AGENT_MAX_BYTES', async () => {
+		serveDirectory('https://agent-large.example', { keys: [ED25519_JWK], padding: 'x'.repeat(200) });
+		const request = await signRequest(createRequest('"https://agent-large.example"'), signer, { components });
+
+		const data = await fetchJson(request, { SIGNATURE_AGENT_MAX_BYTES: '128' });
+
+		expect(data.error).toBe(`Key directory https://agent-large.example${DIRECTORY_PATH} exceeds 128 bytes`);
+	});
+
+	it('should report directories that cannot be fetched', async () => {
+		serveDirectory('https://agent-missing.example', { error: 'not found' }, 404);
+		const request = await signRequest(createRequest('"https://agent-missing.example"'), signer, { components });
+
+		const data = await fetchJson(request);
+
+		expect(data.error).toBe(`Failed to fetch key directory https://agent-missing.example${DIRECTORY_PATH}: HTTP 404`);
+	});
+
+	it('should not follow redirects from a directory', async () => {
+		fetchMock
+			.get('https://agent-moved.example')
+			.intercept({ path: DIRECTORY_PATH })
+			.reply(302, '', { headers: { location: `https://agent-elsewhere.example${DIRECTORY_PATH}` } });
+		const request = await signRequest(createRequest('"https://agent-moved.example"'), signer, { components });
+
+		const data = await fetchJson(request, { SIGNATURE_AGENTS: 'https://agent-moved.example' });
+
+		expect(data.code).toBe('key_directory_error');
+		expect(data.error).toBe(`Failed to fetch key directory https://agent-moved.example${DIRECTORY_PATH}: HTTP 302`);
+	});
+
+	it('should report network failures while fetching a directory', async () => {
+		fetchMock.get('https://agent-down.example').intercept({ path: DIRECTORY_PATH }).replyWithError(new Error('connection refused'));
+		const request = await signRequest(createRequest('"https://agent-down.example"'), signer, { components });
+
+		const data = await fetchJson(request);
+
+		expect(data.status).toBe(400);
+		expect(data.code).toBe('key_directory_error');
+		expect(data.error).toMatch(new RegExp(`^Failed to fetch key directory https://agent-down.example${DIRECTORY_PATH}: `));
+	});
+
+	it('should ignore Signature-Agent unless SIGNATURE_AGENTS is configured', async () => {
+		const request = await signRequest(createRequest('"https://agent-one.example"'), signer, { components });
+
+		const data = await fetchJson(request, { SIGNATURE_AGENTS: undefined });
+
+		expect(data.error).toBe(`Unknown key: ${ED25519_THUMBPRINT}`);
+	});
+});
+
+describe('Directory - fetchDirectory', () => {
+	it('should stop reading a directory without Content-Length once it exceeds maxBytes', async () => {
+		let chunks = 0;
+		let cancelled = false;
+		const endless = new ReadableStream<Uint8Array>({
+			pull(controller) {
+				chunks++;
+				controller.enqueue(new Uint8Array(64));
+			},
+			cancel() {
+				cancelled = true;
+			},
+		});
+		const fetcher = async () => new Response(endless);
+		const url = 'https://agent-endless.example/keys';
+
+		const fetched = fetchDirectory(url, { allowedAgents: '*', ttl: 60, maxBytes: 128 }, fetcher as typeof fetch);
+
+		await expect(fetched).rejects.toThrow(`Key directory ${url} exceeds 128 bytes`);
+		expect(cancelled).toBe(true);
+		expect(chunks).toBeLessThan(5);
+	});
+});
+
+describe('Directory - parseSignatureAgent', () => {
+	it('should parse string and dictionary forms', () => {
+		expect(parseSignatureAgent('"https://agent.example"', 'sig1')).toBe('https://agent.example');
+		expect(parseSignatureAgent('sig2="https://b.example", sig1="https://a.example"', 'sig1')).toBe('https://a.example');
+		expect(parseSignatureAgent('sig2="https://b.example"', 'sig1')).toBeUndefined();
+	});
+});
@@ -0,0 +1,162 @@
+/**
+ * Test Suite for error codes and RFC 9457 problem details.
+ *
+ * Clients are meant to branch on `code`, so these tests assert codes only.
+ */
+
+import { createExecutionContext, env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { errorCode, PROBLEM_TYPE_PREFIX, VerificationError } from '../src/errors';
+import { createSigner, ED25519_ALT_PUBLIC_KEY, ED25519_PRIVATE_KEY, ED25519_PUBLIC_KEY, signRequest, singleLinePem } from './helpers';
+
+const signer = createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'test-key-ed25519');
+
+function createRequest(headers: Record<string, string> = { 'x-public-key-pem': singleLinePem(ED25519_PUBLIC_KEY) }, query = ''): Request {
+	return new Request(`http://localhost:8787/verify${query}`, { method: 'POST', headers });
+}
+
+async function fetchWorker(request: Request, testEnv: Partial<Env> = {}): Promise<Response> {
+	return worker.fetch(request, { ...env, ALLOW_HEADER_KEYS: 'true', ...testEnv } as Env, createExecutionContext());
+}
+
+async function codeOf(request: Request, testEnv: Partial<Env> = {}): Promise<string> {
+	return ((await (await fetchWorker(request, testEnv)).json()) as any).code;
+}
+
+describe('Errors - Codes', () => {
+	it('should report missing_signature_input without signature headers', async () => {
+		expect(await codeOf(createRequest())).toBe('missing_signature_input');
+	});
+
+	it('should report missing_signature without a Signature header', async () => {
+		const request = await signRequest(createRequest(), signer);
+		request.headers.delete('Signature');
+
+		expect(await codeOf(request)).toBe('missing_signature');
+	});
+
+	it('should report malformed_signature for an unparsable Signature header', async () => {
+		const request = await signRequest(createRequest(), signer);
+		request.headers.set('Signature', 'sig1=not-base64');
+
+		expect(await codeOf(request)).toBe('malformed_signature');
+	});
+
+	it('should report malformed_signature_input for an unparsable Signature-Input header', async () => {
+		const request = await signRequest(createRequest(), signer);
+		request.headers.set('Signature-Input', 'sig1="@method"');
+
+		expect(await codeOf(request)).toBe('malformed_signature_input');
+	});
+
+	it('should report label_not_found for an unknown label', async () => {
+		const request = await signRequest(createRequest(undefined, '?label=sig9'), signer);
+
+		expect(await codeOf(request)).toBe('label_not_found');
+	});
+
+	it('should report unsupported_algorithm for an unknown alg', async () => {
+		const request = await signRequest(createRequest(), signer, { alg: 'ed448' });
+
+		expect(await codeOf(request)).toBe('unsupported_algorithm');
+	});
+
+	it('should report unsupported_algorithm for an alg naming an Object.prototype property', async () => {
+		const request = await signRequest(createRequest(), signer, { alg: 'constructor' });
+
+		expect(await codeOf(request)).toBe('unsupported_algorithm');
+	});
+
+	it('should report key_parse_error for an invalid PEM key', async () => {
+		const request = await signRequest(createRequest({ 'x-public-key-pem': '-----BEGIN PUBLIC KEY----- AAAA -----END PUBLIC KEY-----' }), signer);
+
+		expect(await codeOf(request)).toBe('key_parse_error');
+	});
+
+	it('should report algorithm_key_mismatch for a shared secret used with ed25519', async () => {
+		const request = await signRequest(createRequest({ 'x-hmac-secret': Buffer.from('secret').toString('base64') }), signer);
+
+		expect(await codeOf(request)).toBe('algorithm_key_mismatch');
+	});
+
+	it('should report invalid_signature for the wrong key', async () => {
+		const request = await signRequest(createRequest({ 'x-public-key-pem': singleLinePem(ED25519_ALT_PUBLIC_KEY) }), signer);
+
+		expect(await codeOf(request)).toBe('invalid_signature');
+	});
+
+	it('should report unknown_key for a keyid missing from the registry', async () => {
+		const request = await signRequest(createRequest({}), signer);
+
+		expect(await codeOf(request, { ALLOW_HEADER_KEYS: 'false' })).toBe('unknown_key');
+	});
+
+	it('should report signature_expired for an expired signature', async () => {
+		const request = await signRequest(createRequest(), signer, { expires: Math.floor(Date.now() / 1000) - 60 });
+
+		expect(await codeOf(request)).toBe('signature_expired');
+	});
+
+	it('should report missing_key when no key is sent', async () => {
+		const request = await signRequest(createRequest({}), signer);
+
+		expect(await codeOf(request, { KEYS: undefined })).toBe('missing_key');
+	});
+});
+
+describe('Errors - errorCode', () => {
+	it('should keep the code of a VerificationError', () => {
+		expect(errorCode(new VerificationError('nonce_replayed', 'Nonce already used'))).toBe('nonce_replayed');
+	});
+
+	it('should fall back to verification_failed for unknown errors', () => {
+		expect(errorCode(new Error('Something else'))).toBe('verification_failed');
+	});
+});
+
+describe('Errors - Problem Details (RFC 9457)', () => {
+	it('should answer application/problem+json when the client accepts it', async () => {
+		const request = await signRequest(
+			createRequest({ 'x-public-key-pem': singleLinePem(ED25519_ALT_PUBLIC_KEY), accept: 'application/problem+json' }),
+			signer
+		);
+
+		const response = await fetchWorker(request);
+		const problem = (await response.json()) as any;
+
+		expect(response.status).toBe(400);
+		expect(response.headers.get('content-type')).toBe('application/problem+json');
+		expect(problem).toMatchObject({
+			type: `${PROBLEM_TYPE_PREFIX}invalid_signature`,
+			title: 'Invalid signature',
+			status: 400,
+			code: 'invalid_signature',
+		});
+		expect(problem.signatures[0].code).toBe('invalid_signature');
+	});
+
+	it('should carry details as an extension member', async () => {
+		const request = await signRequest(createRequest({ 'x-public-key-pem': singleLinePem(ED25519_PUBLIC_KEY), accept: 'application/problem+json' }), signer);
+
+		const problem = (await (await fetchWorker(request, { REQUIRED_COMPONENTS: 'content-type' })).json()) as any;
+
+		expect(problem.code).toBe('insufficient_coverage');
+		expect(problem.details.missingComponents).toEqual(['content-type']);
+	});
+
+	it('should use problem details for request errors', async () => {
+		const request = await signRequest(createRequest({ accept: 'application/problem+json' }), signer);
+
+		const response = await fetchWorker(request, { KEYS: undefined });
+
+		expect(response.headers.get('content-type')).toBe('application/problem+json');
+		expect(((await response.json()) as any).code).toBe('missing_key');
+	});
+
+	it('should keep plain JSON by default', async () => {
+		const response = await fetchWorker(createRequest());
+
+		expect(response.headers.get('content-type')).toBe('application/json');
+	});
+});
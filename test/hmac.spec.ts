@@ -0,0 +1,140 @@
+/**
+ * Test Suite for hmac-sha256 shared-secret verification.
+ *
+ * Covers both secret sources: the demo x-hmac-secret header and the
+ * server-side HMAC_SECRETS store.
+ */
+
+import { createExecutionContext, env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { createSigner, ED25519_PRIVATE_KEY, ED25519_PUBLIC_KEY, signRequest, singleLinePem } from './helpers';
+
+/**
+ * RFC 9421 Appendix B.1.5 test-shared-secret.
+ */
+const SHARED_SECRET = 'uzvJfB4u3N0Jy4T7NZ75MDVcr8zSTInedJtkgcu46YW4XByzNJjxBdtjUkdJPBtbmHhIDi6pcl8jsasjlTMtDQ==';
+const OTHER_SECRET = 'c2VjcmV0LXRoYXQtZG9lcy1ub3QtbWF0Y2gtdGhlLXNpZ25lcg==';
+
+function createHmacRequest(headers: Record<string, string> = {}): Request {
+	return new Request('http://localhost:8787/verify', {
+		method: 'POST',
+		headers: { 'content-type': 'application/json', ...headers },
+		body: '{"hello": "world"}',
+	});
+}
+
+async function fetchJson(request: Request, testEnv: Partial<Env>): Promise<any> {
+	const response = await worker.fetch(request, { ...env, ...testEnv } as Env, createExecutionContext());
+	return { status: response.status, ...((await response.json()) as any) };
+}
+
+describe('HMAC - Demo Header Secret', () => {
+	const signer = createSigner(Buffer.from(SHARED_SECRET, 'base64'), 'hmac-sha256', 'test-shared-secret');
+
+	it('should verify a signature made with the shared secret', async () => {
+		const request = await signRequest(createHmacRequest({ 'x-hmac-secret': SHARED_SECRET }), signer, {
+			components: ['@method', '@authority', 'content-type'],
+		});
+
+		const data = await fetchJson(request, { ALLOW_HEADER_KEYS: 'true' });
+
+		expect(data.status).toBe(200);
+		expect(data.verified).toBe(true);
+	});
+
+	it('should reject a request whose covered header was tampered with after signing', async () => {
+		const request = await signRequest(createHmacRequest({ 'x-hmac-secret': SHARED_SECRET }), signer, {
+			components: ['@method', '@authority', 'content-type'],
+		});
+		request.headers.set('content-type', 'text/plain');
+
+		const data = await fetchJson(request, { ALLOW_HEADER_KEYS: 'true' });
+
+		expect(data.verified).toBe(false);
+		expect(data.error).toBe('Invalid signature');
+	});
+
+	it('should reject a signature made with a different secret', async () => {
+		const request = await signRequest(createHmacRequest({ 'x-hmac-secret': OTHER_SECRET }), signer);
+
+		const data = await fetchJson(request, { ALLOW_HEADER_KEYS: 'true' });
+
+		expect(data.verified).toBe(false);
+		expect(data.error).toBe('Invalid signature');
+	});
+
+	it('should reject a truncated MAC without comparing it', async () => {
+		const request = await signRequest(createHmacRequest({ 'x-hmac-secret': SHARED_SECRET }), signer);
+		const label = request.headers.get('Signature')!.split('=')[0];
+		request.headers.set('Signature', `${label}=:dGVzdA==:`);
+
+		const data = await fetchJson(request, { ALLOW_HEADER_KEYS: 'true' });
+
+		expect(data.verified).toBe(false);
+		expect(data.error).toBe('Invalid signature');
+	});
+
+	it('should not accept a public key for hmac-sha256', async () => {
+		const request = await signRequest(createHmacRequest({ 'x-public-key-pem': singleLinePem(ED25519_PUBLIC_KEY) }), signer);
+
+		const data = await fetchJson(request, { ALLOW_HEADER_KEYS: 'true' });
+
+		expect(data.verified).toBe(false);
+		expect(data.code).toBe('algorithm_key_mismatch');
+		expect(data.error).toBe('Algorithm hmac-sha256 needs a shared secret, but the key is an Ed25519 key');
+	});
+
+	it('should not accept a shared secret for asymmetric algorithms', async () => {
+		const request = await signRequest(
+			createHmacRequest({ 'x-hmac-secret': SHARED_SECRET }),
+			createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'test-key-ed25519')
+		);
+
+		const data = await fetchJson(request, { ALLOW_HEADER_KEYS: 'true' });
+
+		expect(data.verified).toBe(false);
+		expect(data.error).toContain('not allowed for key');
+	});
+});
+
+describe('HMAC - Server-Side Secret Store', () => {
+	const secrets = JSON.stringify({ 'test-shared-secret': SHARED_SECRET });
+
+	it('should verify a signature with a secret from HMAC_SECRETS', async () => {
+		const request = await signRequest(
+			createHmacRequest(),
+			createSigner(Buffer.from(SHARED_SECRET, 'base64'), 'hmac-sha256', 'test-shared-secret')
+		);
+
+		const data = await fetchJson(request, { ALLOW_HEADER_KEYS: 'false', HMAC_SECRETS: secrets });
+
+		expect(data.verified).toBe(true);
+	});
+
+	it('should reject a request sent to a different path than was signed', async () => {
+		const request = await signRequest(
+			createHmacRequest(),
+			createSigner(Buffer.from(SHARED_SECRET, 'base64'), 'hmac-sha256', 'test-shared-secret'),
+			{ components: ['@method', '@path'] }
+		);
+		const tampered = new Request(request.url.replace('/verify', '/other'), request);
+
+		const data = await fetchJson(tampered, { ALLOW_HEADER_KEYS: 'false', HMAC_SECRETS: secrets });
+
+		expect(data.verified).toBe(false);
+		expect(data.error).toBe('Invalid signature');
+	});
+
+	it('should fall through to the key registry for keyids not in the store', async () => {
+		const request = await signRequest(
+			createHmacRequest(),
+			createSigner(Buffer.from(SHARED_SECRET, 'base64'), 'hmac-sha256', 'not-a-secret-keyid')
+		);
+
+		const data = await fetchJson(request, { ALLOW_HEADER_KEYS: 'false', HMAC_SECRETS: secrets });
+
+		expect(data.verified).toBe(false);
+		expect(data.error).toBe('Unknown key: not-a-secret-keyid');
+	});
+});
@@ -20,7 +20,7 @@ import worker from '../src/index';
  * Helper function to create test environment
  */
 function createTestEnv() {
-	const env = {} as Env;
+	const env = { ALLOW_HEADER_KEYS: 'true' } as Env;
 	const ctx = {
 		waitUntil: () => {},
 		passThroughOnException: () => {},
@@ -47,6 +47,10 @@ describe('RFC 9421 HTTP Message Signatures - Required Headers Validation', () =>
 		// Error messages should guide developers on how to fix the issue
 		const request = new Request('http://localhost:8787/verify', {
 			method: 'POST',
+			headers: {
+				signature: 'sig1=:dGVzdA==:',
+				'signature-input': 'sig1=("@method");alg="ed25519";keyid="test-key"',
+			},
 		});
 
 		const { env, ctx } = createTestEnv();
@@ -269,7 +273,8 @@ describe('RFC 9421 HTTP Message Signatures - Edge Cases', () => {
 		const response = await worker.fetch(request, env, ctx);
 		const data = (await response.json()) as any;
 
-		expect(response.status).toBe(400);
+		expect(response.status).toBe(401);
+		expect(response.headers.get('Accept-Signature')).toBe('sig1=()');
 		expect(data).toHaveProperty('verified', false);
 		expect(data).toHaveProperty('error');
 	});
@@ -294,7 +299,8 @@ describe('RFC 9421 HTTP Message Signatures - Edge Cases', () => {
 		const response = await worker.fetch(request, env, ctx);
 		const data = (await response.json()) as any;
 
-		expect(response.status).toBe(400);
+		expect(response.status).toBe(401);
+		expect(response.headers.get('Accept-Signature')).toBe('sig1=()');
 		expect(data).toHaveProperty('verified', false);
 		expect(data).toHaveProperty('error');
 	});
@@ -306,6 +312,10 @@ describe('RFC 9421 HTTP Message Signatures - Error Message Quality', () => {
 		// Error should guide developers on how to fix the issue
 		const request = new Request('http://localhost:8787/verify', {
 			method: 'POST',
+			headers: {
+				signature: 'sig1=:dGVzdA==:',
+				'signature-input': 'sig1=("@method");alg="ed25519";keyid="test-key"',
+			},
 			body: 'test',
 		});
 
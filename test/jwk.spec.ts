@@ -0,0 +1,135 @@
+/**
+ * Test Suite for JWK / JWKS keys (x-public-key-jwk header and /verify/message).
+ *
+ * The JWKs are the RFC 9421 Appendix B.1 test keys.
+ */
+
+import { createExecutionContext, env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { sign } from 'node:crypto';
+import worker from '../src/index';
+import { jwkThumbprint } from '../src/jwk';
+import { createSigner, ED25519_PRIVATE_KEY, P256_PRIVATE_KEY, P384_PRIVATE_KEY, signRequest } from './helpers';
+
+/** RFC 9421 B.1.4 test-key-ed25519 */
+const ED25519_JWK = { kty: 'OKP', crv: 'Ed25519', kid: 'test-key-ed25519', x: 'JrQLj5P_89iXES9-vFgrIy29clF9CC_oPPsw3c5D0bs' };
+
+/** RFC 7638 thumbprint of ED25519_JWK (the keyid Web Bot Auth examples use) */
+const ED25519_THUMBPRINT = 'poqkLGiymh_W0uP6PZFw-dvez3QJT5SolqXBCW38r0U';
+
+/** RFC 9421 B.1.3 test-key-ecc-p256 */
+const P256_JWK = {
+	kty: 'EC',
+	crv: 'P-256',
+	kid: 'test-key-ecc-p256',
+	x: 'qIVYZVLCrPZHGHjP17CTW0_-D9Lfw0EkjqF7xB4FivA',
+	y: 'Mc4nN9LTDOBhfoUeg8Ye9WedFRhnZXZJA12Qp0zZ6F0',
+};
+
+const JWKS = { keys: [P256_JWK, ED25519_JWK] };
+
+function createRequest(jwk: unknown): Request {
+	return new Request('http://localhost:8787/verify', { method: 'POST', headers: { 'x-public-key-jwk': JSON.stringify(jwk) } });
+}
+
+async function fetchJson(request: Request): Promise<any> {
+	const response = await worker.fetch(request, { ...env, ALLOW_HEADER_KEYS: 'true' } as Env, createExecutionContext());
+	return { status: response.status, ...((await response.json()) as any) };
+}
+
+describe('JWK - Single Key', () => {
+	it('should verify an Ed25519 signature with a JWK', async () => {
+		const request = await signRequest(createRequest(ED25519_JWK), createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'any-keyid'));
+
+		const data = await fetchJson(request);
+
+		expect(data.verified).toBe(true);
+	});
+
+	it('should infer the algorithm from the JWK when alg is absent', async () => {
+		const params = '("@method");created=1618884473;keyid="test-key-ecc-p256"';
+		const signature = sign('sha256', Buffer.from(`"@method": POST\n"@signature-params": ${params}`), {
+			key: P256_PRIVATE_KEY,
+			dsaEncoding: 'ieee-p1363',
+		});
+		const request = createRequest(P256_JWK);
+		request.headers.set('Signature-Input', `sig1=${params}`);
+		request.headers.set('Signature', `sig1=:${signature.toString('base64')}:`);
+
+		const data = await fetchJson(request);
+
+		expect(data.verified).toBe(true);
+		expect(data.signatures[0].alg).toBe('ecdsa-p256-sha256');
+	});
+
+	it('should reject a JWK whose kty does not match the algorithm', async () => {
+		const request = await signRequest(createRequest(ED25519_JWK), createSigner(P256_PRIVATE_KEY, 'ecdsa-p256-sha256', 'test-key-ecc-p256'));
+
+		const data = await fetchJson(request);
+
+		expect(data.verified).toBe(false);
+		expect(data.error).toBe('Algorithm ecdsa-p256-sha256 needs key type EC P-256, but the JWK is OKP Ed25519');
+	});
+
+	it('should reject a JWK whose crv does not match the algorithm', async () => {
+		const request = await signRequest(createRequest(P256_JWK), createSigner(P384_PRIVATE_KEY, 'ecdsa-p384-sha384', 'p384'));
+
+		const data = await fetchJson(request);
+
+		expect(data.error).toBe('Algorithm ecdsa-p384-sha384 needs key type EC P-384, but the JWK is EC P-256');
+	});
+
+	it('should reject malformed JWK JSON', async () => {
+		const request = await signRequest(createRequest(ED25519_JWK), createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'any-keyid'));
+		request.headers.set('x-public-key-jwk', '{"kty":');
+
+		const data = await fetchJson(request);
+
+		expect(data.error).toBe('Failed to parse JWK: not valid JSON');
+	});
+});
+
+describe('JWK - JWKS', () => {
+	it('should pick the key whose kid matches the keyid', async () => {
+		const request = await signRequest(createRequest(JWKS), createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'test-key-ed25519'));
+
+		const data = await fetchJson(request);
+
+		expect(data.verified).toBe(true);
+	});
+
+	it('should pick the key whose RFC 7638 thumbprint matches the keyid', async () => {
+		const { kid, ...withoutKid } = ED25519_JWK;
+		const request = await signRequest(createRequest({ keys: [P256_JWK, withoutKid] }), createSigner(ED25519_PRIVATE_KEY, 'ed25519', ED25519_THUMBPRINT));
+
+		const data = await fetchJson(request);
+
+		expect(data.verified).toBe(true);
+	});
+
+	it('should reject a keyid that matches no key', async () => {
+		const request = await signRequest(createRequest(JWKS), createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'unknown-key'));
+
+		const data = await fetchJson(request);
+
+		expect(data.error).toBe('No key in the JWKS matches keyid unknown-key (by kid or RFC 7638 thumbprint)');
+	});
+
+	it('should accept a JWKS object as publicKey in /verify/message', async () => {
+		const signed = await signRequest(new Request('https://example.com/foo'), createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'test-key-ed25519'));
+		const request = new Request('http://localhost:8787/verify/message', {
+			method: 'POST',
+			body: JSON.stringify({ request: { url: signed.url, headers: Object.fromEntries(signed.headers) }, publicKey: JWKS }),
+		});
+
+		const data = await fetchJson(request);
+
+		expect(data.verified).toBe(true);
+	});
+});
+
+describe('JWK - jwkThumbprint', () => {
+	it('should compute the RFC 7638 thumbprint from the required members only', () => {
+		expect(jwkThumbprint({ ...ED25519_JWK, use: 'sig' } as any)).toBe(ED25519_THUMBPRINT);
+	});
+});
@@ -0,0 +1,106 @@
+/**
+ * Test Suite for the withSignatureVerification() middleware.
+ */
+
+import { createExecutionContext, env } from 'cloudflare:test';
+import { describe, it, expect, vi } from 'vitest';
+import { verifiedSignatures, withSignatureVerification } from '../src/middleware';
+import { secretStoreResolver } from '../src/secrets';
+import { appendSignature, createSigner, ED25519_ALT_PRIVATE_KEY, ED25519_PRIVATE_KEY, ED25519_PUBLIC_KEY, signRequest } from './helpers';
+
+const signer = createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'test-key-ed25519');
+
+/**
+ * A Worker that echoes what the middleware forwarded.
+ */
+const echo = {
+	fetch: vi.fn(async (request: Request) => Response.json(verifiedSignatures(request))),
+} satisfies ExportedHandler<Env>;
+
+function fetchWorker(worker: ExportedHandler<Env>, request: Request, testEnv: Partial<Env> = {}): Promise<Response> {
+	return worker.fetch!(request as Request<unknown, IncomingRequestCfProperties>, { ...env, ...testEnv } as Env, createExecutionContext());
+}
+
+describe('Middleware - withSignatureVerification', () => {
+	it('should forward the verified identity to the inner handler', async () => {
+		const worker = withSignatureVerification(echo, { keys: ED25519_PUBLIC_KEY });
+		const request = await signRequest(new Request('https://example.com/orders'), signer);
+
+		const response = await fetchWorker(worker, request);
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual([
+			{ label: 'sig1', keyid: 'test-key-ed25519', alg: 'ed25519', components: ['@method', '@path', '@authority'] },
+		]);
+	});
+
+	it('should reject unsigned requests with 401 without calling the handler', async () => {
+		echo.fetch.mockClear();
+		const worker = withSignatureVerification(echo, { keys: ED25519_PUBLIC_KEY });
+
+		const response = await fetchWorker(worker, new Request('https://example.com/orders'));
+
+		expect(response.status).toBe(401);
+		expect(((await response.json()) as any).error).toBe('Message does not contain Signature-Input header');
+		expect(echo.fetch).not.toHaveBeenCalled();
+	});
+
+	it('should apply the policy options and report the failure code', async () => {
+		const worker = withSignatureVerification(echo, { keys: ED25519_PUBLIC_KEY, required: { components: ['content-type'] } });
+		const request = await signRequest(new Request('https://example.com/orders'), signer);
+
+		const data = (await (await fetchWorker(worker, request)).json()) as any;
+
+		expect(data.code).toBe('insufficient_coverage');
+		expect(data.details.missingComponents).toEqual(['content-type']);
+	});
+
+	it('should send an Accept-Signature challenge for unsigned requests', async () => {
+		const worker = withSignatureVerification(echo, { keys: ED25519_PUBLIC_KEY, required: { components: ['@method', '@authority'] } });
+
+		const response = await fetchWorker(worker, new Request('https://example.com/orders'));
+
+		expect(response.status).toBe(401);
+		expect(response.headers.get('Accept-Signature')).toBe('sig1=("@method" "@authority")');
+	});
+
+	it('should use onFailure to format rejections', async () => {
+		const worker = withSignatureVerification(echo, {
+			keys: ED25519_PUBLIC_KEY,
+			onFailure: (outcome) => new Response(outcome.signatures[0].error, { status: 403 }),
+		});
+		const request = await signRequest(new Request('https://example.com/orders'), createSigner(ED25519_ALT_PRIVATE_KEY, 'ed25519', 'other'));
+
+		const response = await fetchWorker(worker, request);
+
+		expect(response.status).toBe(403);
+		expect(await response.text()).toBe('Invalid signature');
+	});
+
+	it('should forward only the verified signatures under the any policy', async () => {
+		const worker = withSignatureVerification(echo, { keys: ED25519_PUBLIC_KEY, policy: 'any' });
+		const signed = await signRequest(new Request('https://example.com/orders'), signer);
+		const request = await appendSignature(signed, createSigner(ED25519_ALT_PRIVATE_KEY, 'ed25519', 'proxy'), 'proxy');
+
+		const data = (await (await fetchWorker(worker, request)).json()) as any[];
+
+		expect(data.map((signature) => signature.label)).toEqual(['sig1']);
+	});
+
+	it('should build options per request from Env', async () => {
+		const worker = withSignatureVerification(echo, (request, env) => ({ keys: secretStoreResolver(env.HMAC_SECRETS!) }));
+		const secret = Buffer.from('a-shared-secret-of-32-bytes-long');
+		const request = await signRequest(new Request('https://example.com/orders'), createSigner(secret, 'hmac-sha256', 'service'));
+
+		const response = await fetchWorker(worker, request, { HMAC_SECRETS: JSON.stringify({ service: secret.toString('base64') }) });
+
+		expect(response.status).toBe(200);
+	});
+
+	it('should pass other handlers through', () => {
+		const scheduled = vi.fn();
+
+		expect(withSignatureVerification({ ...echo, scheduled }, { keys: ED25519_PUBLIC_KEY }).scheduled).toBe(scheduled);
+		expect(() => withSignatureVerification({ scheduled }, { keys: ED25519_PUBLIC_KEY })).toThrow('needs a handler with a fetch method');
+	});
+});
@@ -0,0 +1,131 @@
+/**
+ * Test Suite for requests carrying several labeled signatures.
+ *
+ * Keys are registered in the local KV registry so that each label can be
+ * verified with its own keyid.
+ */
+
+import { createExecutionContext, env } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { putKey } from '../src/registry';
+import { splitDictionary } from '../src/utils';
+import { appendSignature, createSigner, ED25519_ALT_PRIVATE_KEY, ED25519_ALT_PUBLIC_KEY, ED25519_PRIVATE_KEY, ED25519_PUBLIC_KEY } from './helpers';
+
+const client = createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'multi-client');
+const proxy = createSigner(ED25519_ALT_PRIVATE_KEY, 'ed25519', 'multi-proxy');
+
+beforeAll(async () => {
+	await putKey(env.KEYS!, { keyid: 'multi-client', publicKey: ED25519_PUBLIC_KEY, algorithms: ['ed25519'], createdAt: 1618884473 });
+	await putKey(env.KEYS!, { keyid: 'multi-proxy', publicKey: ED25519_ALT_PUBLIC_KEY, algorithms: ['ed25519'], createdAt: 1618884473 });
+});
+
+function createRequest(query = ''): Request {
+	return new Request(`http://localhost:8787/verify${query}`, { method: 'POST', body: 'test' });
+}
+
+/**
+ * sig1 from the client, sig2 from the proxy. With `breakProxy`, sig2 claims
+ * the proxy's keyid but is signed with the client's key.
+ */
+async function doublySigned(query = '', breakProxy = false): Promise<Request> {
+	const signed = await appendSignature(createRequest(query), client, 'sig1');
+	const proxySigner = breakProxy ? { ...client, keyid: 'multi-proxy' } : proxy;
+	return appendSignature(signed, proxySigner, 'sig2', { components: ['@method', '@authority'] });
+}
+
+async function fetchJson(request: Request): Promise<any> {
+	const response = await worker.fetch(request, { ...env, ALLOW_HEADER_KEYS: 'false' } as Env, createExecutionContext());
+	return { status: response.status, ...((await response.json()) as any) };
+}
+
+describe('Multiple Signatures - Policies', () => {
+	it('should verify every label and report each one', async () => {
+		const data = await fetchJson(await doublySigned());
+
+		expect(data.status).toBe(200);
+		expect(data.verified).toBe(true);
+		expect(data.policy).toBe('all');
+		expect(data.signatures).toEqual([
+			{
+				verified: true,
+				label: 'sig1',
+				keyid: 'multi-client',
+				alg: 'ed25519',
+				components: ['@method', '@path', '@authority'],
+				keyFingerprint: 'sha256:NFcWBst6DXG-N35nHdzMrioWntdzNZghQSkjHNMMSjw',
+			},
+			{
+				verified: true,
+				label: 'sig2',
+				keyid: 'multi-proxy',
+				alg: 'ed25519',
+				components: ['@method', '@authority'],
+				keyFingerprint: 'sha256:E1ExBNFJopgY4UlSiU5FYIzEl4G55JRGkJW7ffA06Yk',
+			},
+		]);
+	});
+
+	it('should fail under the "all" policy when one signature is invalid', async () => {
+		const data = await fetchJson(await doublySigned('', true));
+
+		expect(data.verified).toBe(false);
+		expect(data.error).toBe('Invalid signature');
+		expect(data.signatures.map((result: any) => result.verified)).toEqual([true, false]);
+		expect(data.signatures[1].label).toBe('sig2');
+	});
+
+	it('should pass under the "any" policy when one signature is valid', async () => {
+		const data = await fetchJson(await doublySigned('?policy=any', true));
+
+		expect(data.verified).toBe(true);
+		expect(data.policy).toBe('any');
+		expect(data.signatures.map((result: any) => result.verified)).toEqual([true, false]);
+	});
+
+	it('should reject an unknown policy', async () => {
+		const data = await fetchJson(await doublySigned('?policy=most'));
+
+		expect(data.status).toBe(400);
+		expect(data.error).toBe('Invalid signature policy: most');
+	});
+});
+
+describe('Multiple Signatures - Label Selection', () => {
+	it('should only verify the label selected by query parameter', async () => {
+		const data = await fetchJson(await doublySigned('?label=sig1', true));
+
+		expect(data.verified).toBe(true);
+		expect(data.signatures).toHaveLength(1);
+		expect(data.signatures[0].label).toBe('sig1');
+	});
+
+	it('should only verify the label selected by header', async () => {
+		const request = await doublySigned('', true);
+		request.headers.set('x-signature-label', 'sig2');
+
+		const data = await fetchJson(request);
+
+		expect(data.verified).toBe(false);
+		expect(data.signatures).toHaveLength(1);
+		expect(data.signatures[0].label).toBe('sig2');
+	});
+
+	it('should report a selected label that is not present', async () => {
+		const data = await fetchJson(await doublySigned('?label=sig1,sig9'));
+
+		expect(data.verified).toBe(false);
+		expect(data.error).toBe('Signature label not found: sig9');
+	});
+});
+
+describe('Multiple Signatures - splitDictionary', () => {
+	it('should only split on commas outside quoted strings and inner lists', () => {
+		const members = splitDictionary('sig1=("@method" "x-list");keyid="a, b", sig2=("@path");tag="q\\"uote,d"');
+
+		expect([...members]).toEqual([
+			['sig1', '("@method" "x-list");keyid="a, b"'],
+			['sig2', '("@path");tag="q\\"uote,d"'],
+		]);
+	});
+});
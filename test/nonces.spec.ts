@@ -0,0 +1,103 @@
+/**
+ * Test Suite for nonce replay protection.
+ *
+ * Runs against the local NonceStore Durable Object (bound as NONCES in wrangler.jsonc).
+ */
+
+import { createExecutionContext, env, runDurableObjectAlarm } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { createSigner, ED25519_ALT_PUBLIC_KEY, ED25519_PRIVATE_KEY, ED25519_PUBLIC_KEY, signRequest, singleLinePem } from './helpers';
+
+const signer = createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'test-key-ed25519');
+
+function createRequest(): Request {
+	return new Request('http://localhost:8787/verify', {
+		method: 'POST',
+		headers: { 'x-public-key-pem': singleLinePem(ED25519_PUBLIC_KEY) },
+	});
+}
+
+async function fetchJson(request: Request, testEnv: Partial<Env> = {}): Promise<any> {
+	const response = await worker.fetch(request, { ...env, ALLOW_HEADER_KEYS: 'true', ...testEnv } as Env, createExecutionContext());
+	return { status: response.status, ...((await response.json()) as any) };
+}
+
+describe('Nonces - Replay Protection', () => {
+	it('should accept a nonce once and reject the replayed request', async () => {
+		const request = await signRequest(createRequest(), signer, { nonce: 'replay-nonce-1' });
+
+		const first = await fetchJson(request.clone());
+		const replay = await fetchJson(request);
+
+		expect(first.verified).toBe(true);
+		expect(replay.verified).toBe(false);
+		expect(replay.code).toBe('nonce_replayed');
+	});
+
+	it('should accept different nonces from the same key', async () => {
+		const first = await fetchJson(await signRequest(createRequest(), signer, { nonce: 'distinct-nonce-1' }));
+		const second = await fetchJson(await signRequest(createRequest(), signer, { nonce: 'distinct-nonce-2' }));
+
+		expect(first.verified).toBe(true);
+		expect(second.verified).toBe(true);
+	});
+
+	it('should track nonces per keyid', async () => {
+		const other = createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'other-keyid');
+
+		const first = await fetchJson(await signRequest(createRequest(), signer, { nonce: 'shared-nonce' }));
+		const second = await fetchJson(await signRequest(createRequest(), other, { nonce: 'shared-nonce' }));
+
+		expect(first.verified).toBe(true);
+		expect(second.verified).toBe(true);
+	});
+
+	it('should not record the nonce of a signature that fails verification', async () => {
+		const forged = await signRequest(createRequest(), signer, { nonce: 'forged-nonce' });
+		forged.headers.set('x-public-key-pem', singleLinePem(ED25519_ALT_PUBLIC_KEY));
+		const genuine = await signRequest(createRequest(), signer, { nonce: 'forged-nonce' });
+
+		const rejected = await fetchJson(forged);
+		const accepted = await fetchJson(genuine);
+
+		expect(rejected.error).toBe('Invalid signature');
+		expect(accepted.verified).toBe(true);
+	});
+});
+
+describe('Nonces - NONCE_REQUIRED_KEYS', () => {
+	it('should reject signatures without a nonce from keys that require one', async () => {
+		const data = await fetchJson(await signRequest(createRequest(), signer), { NONCE_REQUIRED_KEYS: 'some-key, test-key-ed25519' });
+
+		expect(data.verified).toBe(false);
+		expect(data.code).toBe('missing_nonce');
+	});
+
+	it('should not require nonces from other keys', async () => {
+		const data = await fetchJson(await signRequest(createRequest(), signer), { NONCE_REQUIRED_KEYS: 'some-key' });
+
+		expect(data.verified).toBe(true);
+	});
+
+	it('should require nonces from every key with "*"', async () => {
+		const data = await fetchJson(await signRequest(createRequest(), signer), { NONCE_REQUIRED_KEYS: '*' });
+
+		expect(data.code).toBe('missing_nonce');
+	});
+});
+
+describe('Nonces - NonceStore', () => {
+	it('should forget nonces once their retention has passed', async () => {
+		const stub = env.NONCES.get(env.NONCES.idFromName('cleanup-test'));
+		const past = Math.floor(Date.now() / 1000) - 10;
+
+		expect(await stub.claim('old-nonce', past)).toBe(true);
+		expect(await stub.claim('old-nonce', past)).toBe(true);
+		expect(await stub.claim('live-nonce', past + 3600)).toBe(true);
+		expect(await stub.claim('live-nonce', past + 3600)).toBe(false);
+
+		expect(await runDurableObjectAlarm(stub)).toBe(true);
+		expect(await stub.claim('live-nonce', past + 3600)).toBe(false);
+	});
+});
@@ -0,0 +1,144 @@
+/**
+ * Test Suite for response profiles (RESPONSE_PROFILE=demo / strict).
+ *
+ * The demo profile returns the verbose debugging body; the strict profile
+ * returns only the outcome and logs the details.
+ */
+
+import { createExecutionContext, env } from 'cloudflare:test';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import worker from '../src/index';
+import { responseProfileFromEnv } from '../src/profile';
+import { createSigner, ED25519_ALT_PUBLIC_KEY, ED25519_PRIVATE_KEY, ED25519_PUBLIC_KEY, signRequest, singleLinePem } from './helpers';
+
+const signer = createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'test-key-ed25519');
+
+const GENERIC_FAILURE = { verified: false, error: 'Signature verification failed', code: 'verification_failed' };
+
+function createRequest(publicKey = ED25519_PUBLIC_KEY, headers: Record<string, string> = {}): Request {
+	return new Request('http://localhost:8787/verify', {
+		method: 'POST',
+		headers: { 'x-public-key-pem': singleLinePem(publicKey), ...headers },
+	});
+}
+
+function fetchWorker(request: Request, testEnv: Partial<Env> = {}): Promise<Response> {
+	return worker.fetch(request, { ...env, ALLOW_HEADER_KEYS: 'true', ...testEnv } as Env, createExecutionContext());
+}
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('Profile - demo', () => {
+	it('should echo the signature headers and key on success', async () => {
+		const request = await signRequest(createRequest(), signer);
+
+		const data = (await (await fetchWorker(request)).json()) as any;
+
+		expect(data).toMatchObject({
+			verified: true,
+			policy: 'all',
+			Signature: request.headers.get('Signature'),
+			'Signature-Input': request.headers.get('Signature-Input'),
+			pemKey: singleLinePem(ED25519_PUBLIC_KEY),
+		});
+		expect(data.signatures[0]).toMatchObject({ label: 'sig1', keyid: 'test-key-ed25519', alg: 'ed25519' });
+	});
+
+	it('should return the failure reason', async () => {
+		const request = await signRequest(createRequest(ED25519_ALT_PUBLIC_KEY), signer);
+
+		const response = await fetchWorker(request, { RESPONSE_PROFILE: 'demo' });
+		const data = (await response.json()) as any;
+
+		expect(response.status).toBe(400);
+		expect(data).toMatchObject({ verified: false, error: 'Invalid signature', code: 'invalid_signature' });
+		expect(data.Signature).toBe(request.headers.get('Signature'));
+	});
+});
+
+describe('Profile - strict', () => {
+	const strict = { RESPONSE_PROFILE: 'strict' };
+
+	it('should answer only the outcome on success', async () => {
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		const request = await signRequest(createRequest(), signer);
+
+		const response = await fetchWorker(request, strict);
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual({ verified: true });
+	});
+
+	it('should answer every failure with the same generic 401', async () => {
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const wrongKey = await signRequest(createRequest(ED25519_ALT_PUBLIC_KEY), signer);
+		const unsigned = createRequest();
+
+		const invalid = await fetchWorker(wrongKey, strict);
+		const missing = await fetchWorker(unsigned, strict);
+
+		expect(invalid.status).toBe(401);
+		expect(missing.status).toBe(401);
+		expect(await invalid.json()).toEqual(GENERIC_FAILURE);
+		expect(await missing.json()).toEqual(GENERIC_FAILURE);
+		expect(invalid.headers.get('Accept-Signature')).toBe(missing.headers.get('Accept-Signature'));
+	});
+
+	it('should log the details it does not return', async () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const request = await signRequest(createRequest(ED25519_ALT_PUBLIC_KEY), signer);
+
+		await fetchWorker(request, strict);
+
+		expect(warn).toHaveBeenCalledOnce();
+		const [message, entry] = warn.mock.calls[0];
+		expect(message).toBe('Signature verification failed:');
+		expect(JSON.parse(entry)).toMatchObject({
+			verified: false,
+			signatures: [{ label: 'sig1', keyid: 'test-key-ed25519', code: 'invalid_signature', error: 'Invalid signature' }],
+			'Signature-Input': request.headers.get('Signature-Input'),
+		});
+	});
+
+	it('should send generic problem details when the client accepts them', async () => {
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const request = await signRequest(createRequest(ED25519_ALT_PUBLIC_KEY, { accept: 'application/problem+json' }), signer);
+
+		const response = await fetchWorker(request, strict);
+
+		expect(response.headers.get('content-type')).toBe('application/problem+json');
+		expect(await response.json()).toMatchObject({ status: 401, code: 'verification_failed', detail: 'Signature verification failed' });
+	});
+
+	it('should ignore debug mode', async () => {
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		const request = await signRequest(createRequest(), signer);
+
+		const response = await fetchWorker(new Request('http://localhost:8787/verify?debug=true', request), strict);
+
+		expect(await response.json()).toEqual({ verified: true });
+	});
+
+	it('should apply to reverse-proxy rejections', async () => {
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const upstream = { fetch: vi.fn(async () => new Response('forwarded')) } as unknown as Fetcher;
+		const request = await signRequest(createRequest(), signer);
+
+		const response = await fetchWorker(request, { ...strict, UPSTREAM: upstream, HMAC_SECRETS: '{}' });
+
+		expect(response.status).toBe(401);
+		expect(await response.json()).toEqual(GENERIC_FAILURE);
+		expect(response.headers.has('Accept-Signature')).toBe(true);
+	});
+});
+
+describe('Profile - Configuration', () => {
+	it('should fall back to strict for unknown values', () => {
+		expect(responseProfileFromEnv({} as Env)).toBe('demo');
+		expect(responseProfileFromEnv({ RESPONSE_PROFILE: ' Demo ' } as Env)).toBe('demo');
+		expect(responseProfileFromEnv({ RESPONSE_PROFILE: 'strict' } as Env)).toBe('strict');
+		expect(responseProfileFromEnv({ RESPONSE_PROFILE: 'stirct' } as Env)).toBe('strict');
+	});
+});
@@ -0,0 +1,145 @@
+/**
+ * Test Suite for reverse-proxy mode (UPSTREAM / UPSTREAM_URL).
+ *
+ * The upstream is a stand-in service binding that echoes what it received,
+ * or the fetchMock outbound mock for UPSTREAM_URL.
+ */
+
+import { createExecutionContext, env, fetchMock } from 'cloudflare:test';
+import { beforeAll, describe, it, expect, vi } from 'vitest';
+import worker from '../src/index';
+import { createSigner, ED25519_PUBLIC_KEY, signRequest, singleLinePem } from './helpers';
+
+const SECRET = Buffer.from('proxy-mode-shared-secret-32-bytes').toString('base64');
+const HMAC_SECRETS = JSON.stringify({ 'proxy-client': SECRET });
+
+const signer = createSigner(Buffer.from(SECRET, 'base64'), 'hmac-sha256', 'proxy-client');
+
+/**
+ * A service binding that echoes the forwarded request.
+ */
+const upstream = {
+	fetch: vi.fn(async (request: Request) =>
+		Response.json({ url: request.url, method: request.method, headers: Object.fromEntries(request.headers), body: await request.text() })
+	),
+};
+
+beforeAll(() => {
+	fetchMock.activate();
+	fetchMock.disableNetConnect();
+});
+
+function fetchWorker(request: Request, testEnv: Partial<Env> = {}): Promise<Response> {
+	return worker.fetch(
+		request,
+		{ ...env, ALLOW_HEADER_KEYS: 'true', HMAC_SECRETS, UPSTREAM: upstream as unknown as Fetcher, ...testEnv } as Env,
+		createExecutionContext()
+	);
+}
+
+function createRequest(headers: Record<string, string> = {}): Request {
+	return new Request('https://api.example.com/orders?id=7', { method: 'POST', headers, body: '{"item": 1}' });
+}
+
+describe('Proxy - Forwarding', () => {
+	it('should forward a verified request with the verified identity', async () => {
+		const request = await signRequest(createRequest({ 'content-type': 'application/json' }), signer);
+
+		const response = await fetchWorker(request);
+		const forwarded = (await response.json()) as any;
+
+		expect(response.status).toBe(200);
+		expect(forwarded).toMatchObject({ url: 'https://api.example.com/orders?id=7', method: 'POST', body: '{"item": 1}' });
+		expect(forwarded.headers).toMatchObject({
+			'content-type': 'application/json',
+			'x-verified-keyid': 'proxy-client',
+			'x-verified-alg': 'hmac-sha256',
+		});
+		expect(forwarded.headers).not.toHaveProperty('signature');
+		expect(forwarded.headers).not.toHaveProperty('signature-input');
+	});
+
+	it('should strip client keys and spoofed identity headers', async () => {
+		const request = await signRequest(createRequest({ 'x-hmac-secret': SECRET, 'x-verified-keyid': 'admin' }), signer);
+
+		const forwarded = (await (await fetchWorker(request)).json()) as any;
+
+		expect(forwarded.headers['x-verified-keyid']).toBe('proxy-client');
+		expect(forwarded.headers).not.toHaveProperty('x-hmac-secret');
+	});
+
+	it('should keep the signature headers with FORWARD_SIGNATURE_HEADERS', async () => {
+		const request = await signRequest(createRequest(), signer);
+
+		const forwarded = (await (await fetchWorker(request, { FORWARD_SIGNATURE_HEADERS: 'true' })).json()) as any;
+
+		expect(forwarded.headers['signature-input']).toBe(request.headers.get('signature-input'));
+		expect(forwarded.headers.signature).toBe(request.headers.get('signature'));
+	});
+
+	it('should forward to UPSTREAM_URL below its path prefix', async () => {
+		fetchMock.get('https://internal.example').intercept({ method: 'POST', path: '/v1/orders?id=7' }).reply(201, 'created');
+		const request = await signRequest(createRequest(), signer);
+
+		const response = await fetchWorker(request, { UPSTREAM: undefined, UPSTREAM_URL: 'https://internal.example/v1/' });
+
+		expect(response.status).toBe(201);
+		expect(await response.text()).toBe('created');
+	});
+
+	it('should answer 502 when the upstream cannot be reached', async () => {
+		const request = await signRequest(createRequest(), signer);
+		const unreachable = { fetch: () => Promise.reject(new Error('connection refused')) } as unknown as Fetcher;
+
+		const response = await fetchWorker(request, { UPSTREAM: unreachable });
+
+		expect(response.status).toBe(502);
+		expect(await response.json()).toEqual({ error: 'Upstream unavailable', message: 'connection refused' });
+	});
+});
+
+describe('Proxy - Rejections', () => {
+	it('should answer 401 without forwarding unsigned requests', async () => {
+		upstream.fetch.mockClear();
+
+		const response = await fetchWorker(createRequest(), { REQUIRED_COMPONENTS: '@method,@path' });
+
+		expect(response.status).toBe(401);
+		expect(response.headers.get('Accept-Signature')).toBe('sig1=("@method" "@path")');
+		expect(upstream.fetch).not.toHaveBeenCalled();
+	});
+
+	it('should answer 401 without forwarding invalid signatures', async () => {
+		upstream.fetch.mockClear();
+		const signed = await signRequest(createRequest(), signer);
+		const tampered = new Request('https://api.example.com/refunds?id=7', signed);
+
+		const response = await fetchWorker(tampered);
+
+		expect(response.status).toBe(401);
+		expect(((await response.json()) as any).code).toBe('invalid_signature');
+		expect(upstream.fetch).not.toHaveBeenCalled();
+	});
+
+	it('should ignore client-supplied keys', async () => {
+		const request = await signRequest(createRequest({ 'x-public-key-pem': singleLinePem(ED25519_PUBLIC_KEY) }), signer);
+
+		const response = await fetchWorker(request, { HMAC_SECRETS: undefined, KEYS: undefined });
+
+		expect(response.status).toBe(500);
+		expect(((await response.json()) as any).code).toBe('no_key_source');
+	});
+
+	it('should answer 500 when UPSTREAM_URL is not an absolute http(s) URL', async () => {
+		const request = await signRequest(createRequest(), signer);
+
+		const response = await fetchWorker(request, { UPSTREAM: undefined, UPSTREAM_URL: 'internal.example/v1' });
+
+		expect(response.status).toBe(500);
+		expect(await response.json()).toEqual({
+			error: 'Invalid UPSTREAM_URL',
+			code: 'invalid_upstream_url',
+			message: 'UPSTREAM_URL must be an absolute http(s) URL: internal.example/v1',
+		});
+	});
+});
@@ -0,0 +1,168 @@
+/**
+ * Test Suite for rate limits (IP_RATE_LIMIT / KEYID_RATE_LIMIT, local Durable Object).
+ *
+ * Each test uses its own client IP and keyid, so buckets never carry over.
+ */
+
+import { createExecutionContext, env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { MAX_KEYID_BUCKETS, parseRateLimit } from '../src/ratelimit';
+import { createSigner, ED25519_PRIVATE_KEY, ED25519_PUBLIC_KEY, signRequest, singleLinePem } from './helpers';
+
+function fetchWorker(request: Request, testEnv: Partial<Env> = {}): Promise<Response> {
+	return worker.fetch(request, { ...env, ALLOW_HEADER_KEYS: 'true', ...testEnv } as Env, createExecutionContext());
+}
+
+function signedRequest(ip: string, keyid: string, headers: Record<string, string> = {}): Promise<Request> {
+	const request = new Request('http://localhost:8787/verify', {
+		method: 'POST',
+		headers: { 'x-public-key-pem': singleLinePem(ED25519_PUBLIC_KEY), 'cf-connecting-ip': ip, ...headers },
+	});
+	return signRequest(request, createSigner(ED25519_PRIVATE_KEY, 'ed25519', keyid));
+}
+
+describe('Rate Limits - Client IP', () => {
+	it('should report the remaining quota and answer 429 once it is used up', async () => {
+		const limits = { IP_RATE_LIMIT: '2/60' };
+
+		const first = await fetchWorker(await signedRequest('198.51.100.1', 'ip-key-1'), limits);
+		const second = await fetchWorker(await signedRequest('198.51.100.1', 'ip-key-1'), limits);
+		const third = await fetchWorker(await signedRequest('198.51.100.1', 'ip-key-1'), limits);
+
+		expect(first.status).toBe(200);
+		expect(first.headers.get('X-RateLimit-Limit')).toBe('2');
+		expect(first.headers.get('X-RateLimit-Remaining')).toBe('1');
+		expect(first.headers.get('X-RateLimit-Reset')).toBe('30');
+		expect(second.headers.get('X-RateLimit-Remaining')).toBe('0');
+		expect(third.status).toBe(429);
+		expect(third.headers.get('Retry-After')).toBe('30');
+		expect(await third.json()).toEqual({ error: 'Rate limit exceeded', code: 'rate_limited', message: 'Retry in 30 seconds' });
+	});
+
+	it('should count unsigned and failing requests too', async () => {
+		const limits = { IP_RATE_LIMIT: '1/60' };
+		const unsigned = new Request('http://localhost:8787/verify', { method: 'POST', headers: { 'cf-connecting-ip': '198.51.100.2' } });
+
+		expect((await fetchWorker(unsigned, limits)).status).toBe(401);
+		expect((await fetchWorker(await signedRequest('198.51.100.2', 'ip-key-2'), limits)).status).toBe(429);
+		expect((await fetchWorker(await signedRequest('198.51.100.3', 'ip-key-2'), limits)).status).toBe(200);
+	});
+
+	it('should send problem details when the client accepts them', async () => {
+		const limits = { IP_RATE_LIMIT: '1/10' };
+		await fetchWorker(await signedRequest('198.51.100.4', 'ip-key-3'), limits);
+
+		const response = await fetchWorker(await signedRequest('198.51.100.4', 'ip-key-3', { accept: 'application/problem+json' }), limits);
+
+		expect(response.headers.get('content-type')).toBe('application/problem+json');
+		expect(response.headers.get('Retry-After')).toBe('10');
+		expect(await response.json()).toMatchObject({ status: 429, code: 'rate_limited', title: 'Too many requests' });
+	});
+});
+
+describe('Rate Limits - keyid', () => {
+	it('should limit a keyid across client IPs', async () => {
+		const limits = { KEYID_RATE_LIMIT: '2/60' };
+
+		await fetchWorker(await signedRequest('198.51.100.10', 'shared-key'), limits);
+		await fetchWorker(await signedRequest('198.51.100.11', 'shared-key'), limits);
+		const blocked = await fetchWorker(await signedRequest('198.51.100.12', 'shared-key'), limits);
+		const other = await fetchWorker(await signedRequest('198.51.100.12', 'other-key'), limits);
+
+		expect(blocked.status).toBe(429);
+		expect(other.status).toBe(200);
+	});
+
+	it('should report the most constrained bucket', async () => {
+		const limits = { IP_RATE_LIMIT: '10/60', KEYID_RATE_LIMIT: '3/60' };
+
+		const response = await fetchWorker(await signedRequest('198.51.100.20', 'tight-key'), limits);
+
+		expect(response.headers.get('X-RateLimit-Limit')).toBe('3');
+		expect(response.headers.get('X-RateLimit-Remaining')).toBe('2');
+	});
+});
+
+describe('Rate Limits - Described Messages', () => {
+	/**
+	 * A captured request signed with `keyid`, as a POST /verify/message body.
+	 */
+	async function described(keyid: string): Promise<{ request: { method: string; url: string; headers: Record<string, string> } }> {
+		const signed = await signRequest(new Request('https://api.example.com/orders'), createSigner(ED25519_PRIVATE_KEY, 'ed25519', keyid));
+		return { request: { method: signed.method, url: signed.url, headers: Object.fromEntries(signed.headers) } };
+	}
+
+	function post(path: string, ip: string, body: string): Request {
+		const headers = { 'x-public-key-pem': singleLinePem(ED25519_PUBLIC_KEY), 'cf-connecting-ip': ip };
+		return new Request(`http://localhost:8787${path}`, { method: 'POST', headers, body });
+	}
+
+	it('should limit the keyid of the described message, not of the request carrying it', async () => {
+		const limits = { KEYID_RATE_LIMIT: '1/60' };
+		const { request } = await described('body-key');
+		const raw = `GET /orders HTTP/1.1\r\nHost: api.example.com\r\nSignature-Input: ${request.headers['signature-input']}\r\nSignature: ${request.headers.signature}\r\n\r\n`;
+		const message = JSON.stringify({ request, publicKey: ED25519_PUBLIC_KEY });
+
+		const first = await fetchWorker(post('/verify/message', '198.51.100.40', message), limits);
+		const second = await fetchWorker(post('/verify/raw', '198.51.100.41', raw), limits);
+
+		expect(first.status).toBe(200);
+		expect(first.headers.get('X-RateLimit-Remaining')).toBe('0');
+		expect(second.status).toBe(429);
+	});
+
+	it('should charge every entry of a batch against the IP and keyid buckets', async () => {
+		const limits = { IP_RATE_LIMIT: '1/60', KEYID_RATE_LIMIT: '1/60' };
+		const probe = await described('victim');
+
+		const response = await fetchWorker(post('/verify/batch', '198.51.100.43', JSON.stringify(new Array(50).fill(probe))), limits);
+
+		expect(response.status).toBe(429);
+		expect(response.headers.get('Retry-After')).toBe('2940');
+	});
+
+	it('should refuse messages that name more keyids than MAX_KEYID_BUCKETS', async () => {
+		const limits = { KEYID_RATE_LIMIT: '10/60' };
+		const { request } = await described('fan-out-key');
+		const labels = Array.from({ length: MAX_KEYID_BUCKETS + 1 }, (_, index) => `sig${index}=("@method");keyid="fan-out-key-${index}"`);
+		request.headers['signature-input'] = labels.join(', ');
+		const message = JSON.stringify({ request, publicKey: ED25519_PUBLIC_KEY });
+
+		const response = await fetchWorker(post('/verify/message', '198.51.100.42', message), limits);
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ error: `Too many keyids: ${MAX_KEYID_BUCKETS + 1}`, code: 'invalid_request' });
+	});
+
+	it('should charge batches that name more keyids than MAX_KEYID_BUCKETS in total', async () => {
+		const limits = { KEYID_RATE_LIMIT: '1/60' };
+		const keyids = Array.from({ length: MAX_KEYID_BUCKETS * 2 + 1 }, (_, index) => `wide-batch-key-${index}`);
+		const batch = await Promise.all(keyids.map(described));
+		const lastEntry = JSON.stringify({ ...batch.at(-1), publicKey: ED25519_PUBLIC_KEY });
+
+		const response = await fetchWorker(post('/verify/batch', '198.51.100.44', JSON.stringify(batch)), limits);
+		const last = await fetchWorker(post('/verify/message', '198.51.100.45', lastEntry), limits);
+
+		expect(response.status).toBe(200);
+		expect(((await response.json()) as any).summary.verified).toBe(keyids.length);
+		expect(last.status).toBe(429);
+	});
+});
+
+describe('Rate Limits - Configuration', () => {
+	it('should not limit or add headers without a limit', async () => {
+		const response = await fetchWorker(await signedRequest('198.51.100.30', 'unlimited-key'));
+
+		expect(response.status).toBe(200);
+		expect(response.headers.has('X-RateLimit-Limit')).toBe(false);
+	});
+
+	it('should parse capacity/seconds limits', () => {
+		expect(parseRateLimit('60/60')).toEqual({ capacity: 60, period: 60 });
+		expect(parseRateLimit(' 100 / 3600 ')).toEqual({ capacity: 100, period: 3600 });
+		expect(parseRateLimit('0/60')).toBeUndefined();
+		expect(parseRateLimit('60')).toBeUndefined();
+		expect(parseRateLimit(undefined)).toBeUndefined();
+	});
+});
@@ -0,0 +1,170 @@
+/**
+ * Test Suite for POST /verify/raw (raw HTTP/1.1 request dumps) and the raw parser.
+ */
+
+import { createExecutionContext, env } from 'cloudflare:test';
+import { createHash } from 'node:crypto';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { parseRawRequest } from '../src/messages';
+import { createSigner, ED25519_ALT_PUBLIC_KEY, ED25519_PRIVATE_KEY, ED25519_PUBLIC_KEY, signRequest, singleLinePem } from './helpers';
+
+const signer = createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'test-key-ed25519');
+
+const BODY = 'line one\r\nline two';
+const CONTENT_DIGEST = `sha-256=:${createHash('sha256').update(BODY).digest('base64')}:`;
+
+async function verifyRaw(raw: string | Uint8Array, query = '', publicKey = ED25519_PUBLIC_KEY): Promise<any> {
+	const request = new Request(`http://localhost:8787/verify/raw${query}`, {
+		method: 'POST',
+		headers: { 'content-type': 'text/plain', 'x-public-key-pem': singleLinePem(publicKey) },
+		body: raw,
+	});
+	const response = await worker.fetch(request, { ...env, ALLOW_HEADER_KEYS: 'true' } as Env, createExecutionContext());
+	return { status: response.status, ...((await response.json()) as any) };
+}
+
+/**
+ * Sign a request and dump it as raw HTTP/1.1, as it would appear in a log.
+ *
+ * @param target - The request target written on the request line
+ */
+async function dump(url: string, target: string, components = ['@method', '@target-uri', '@authority']): Promise<string> {
+	const { host } = new URL(url);
+	const signed = await signRequest(new Request(url), signer, { components });
+	return [
+		`GET ${target} HTTP/1.1`,
+		`Host: ${host}`,
+		`Signature-Input: ${signed.headers.get('Signature-Input')}`,
+		`Signature: ${signed.headers.get('Signature')}`,
+		'',
+		'',
+	].join('\r\n');
+}
+
+describe('Raw - POST /verify/raw', () => {
+	it('should verify a dump against its original target URI and authority', async () => {
+		const data = await verifyRaw(await dump('https://api.example.com:8443/orders?id=42', '/orders?id=42'));
+
+		expect(data.status).toBe(200);
+		expect(data.verified).toBe(true);
+		expect(data.signatures[0].components).toEqual(['@method', '@target-uri', '@authority']);
+	});
+
+	it('should verify the body byte for byte', async () => {
+		const signed = await signRequest(
+			new Request('https://api.example.com/notes', { method: 'POST', headers: { 'content-digest': CONTENT_DIGEST }, body: BODY }),
+			signer,
+			{ components: ['@method', '@path', 'content-digest'] }
+		);
+		const raw = [
+			'POST /notes HTTP/1.1',
+			'Host: api.example.com',
+			`Content-Digest: ${CONTENT_DIGEST}`,
+			`Content-Length: ${BODY.length}`,
+			`Signature-Input: ${signed.headers.get('Signature-Input')}`,
+			`Signature: ${signed.headers.get('Signature')}`,
+			'',
+			// The newline an editor adds when the dump is saved is beyond Content-Length
+			`${BODY}\n`,
+		].join('\r\n');
+
+		const data = await verifyRaw(raw);
+
+		expect(data.verified).toBe(true);
+	});
+
+	it('should verify a body that is not UTF-8', async () => {
+		// ISO-8859-1 "café" and two bytes that never occur in UTF-8
+		const body = new Uint8Array([0x63, 0x61, 0x66, 0xe9, 0xfe, 0xff]);
+		const contentDigest = `sha-256=:${createHash('sha256').update(body).digest('base64')}:`;
+		const signed = await signRequest(
+			new Request('https://api.example.com/notes', { method: 'POST', headers: { 'content-digest': contentDigest }, body }),
+			signer,
+			{ components: ['@method', '@path', 'content-digest'] }
+		);
+		const head = [
+			'POST /notes HTTP/1.1',
+			'Host: api.example.com',
+			`Content-Digest: ${contentDigest}`,
+			`Content-Length: ${body.length}`,
+			`Signature-Input: ${signed.headers.get('Signature-Input')}`,
+			`Signature: ${signed.headers.get('Signature')}`,
+			'',
+			'',
+		].join('\r\n');
+
+		const data = await verifyRaw(Buffer.concat([Buffer.from(head), body, Buffer.from('\n')]));
+
+		expect(data.verified).toBe(true);
+	});
+
+	it('should verify a GET dump saved with a trailing newline', async () => {
+		const data = await verifyRaw(`${await dump('https://api.example.com/orders', '/orders')}\n`);
+
+		expect(data.status).toBe(200);
+		expect(data.verified).toBe(true);
+	});
+
+	it('should resolve origin-form targets with ?scheme', async () => {
+		const raw = await dump('http://legacy.example/status', '/status');
+
+		const asHttp = await verifyRaw(raw, '?scheme=http');
+		const asHttps = await verifyRaw(raw);
+
+		expect(asHttp.verified).toBe(true);
+		expect(asHttps.code).toBe('invalid_signature');
+	});
+
+	it('should use absolute-form targets as they are', async () => {
+		const data = await verifyRaw(await dump('http://legacy.example/status', 'http://legacy.example/status'));
+
+		expect(data.verified).toBe(true);
+	});
+
+	it('should report a signature that does not match the key', async () => {
+		const data = await verifyRaw(await dump('https://api.example.com/orders', '/orders'), '', ED25519_ALT_PUBLIC_KEY);
+
+		expect(data.status).toBe(400);
+		expect(data.code).toBe('invalid_signature');
+	});
+
+	it('should reject malformed dumps and schemes', async () => {
+		expect(await verifyRaw('{"raw": "GET / HTTP/1.1"}')).toEqual({
+			status: 400,
+			error: 'Malformed request line: {"raw": "GET / HTTP/1.1"}',
+		});
+		expect(await verifyRaw('GET / HTTP/1.1\r\nHost: a.example\r\n\r\n', '?scheme=ftp')).toEqual({
+			status: 400,
+			error: 'scheme must be http or https',
+		});
+	});
+});
+
+describe('Raw - parseRawRequest', () => {
+	it('should keep CRLF in the body and drop bytes beyond Content-Length', () => {
+		const { headers, body } = parseRawRequest(`POST /notes HTTP/1.1\r\nHost: a.example\r\nContent-Length: 18\r\n\r\n${BODY}\r\n`);
+
+		expect(headers).toEqual([
+			['Host', 'a.example'],
+			['Content-Length', '18'],
+		]);
+		expect(new TextDecoder().decode(body as Uint8Array)).toBe(BODY);
+	});
+
+	it('should cut the body at Content-Length even inside a multibyte character', () => {
+		const { body } = parseRawRequest('POST /notes HTTP/1.1\r\nHost: a.example\r\nContent-Length: 4\r\n\r\ncafé');
+
+		expect(body).toEqual(new Uint8Array([0x63, 0x61, 0x66, 0xc3]));
+	});
+
+	it('should treat line breaks after a GET without Content-Length as no body', () => {
+		const get = parseRawRequest('GET /orders HTTP/1.1\r\nHost: a.example\r\n\r\n\r\n\n');
+		const post = parseRawRequest('POST /orders HTTP/1.1\r\nHost: a.example\r\n\r\n\r\n');
+		const chunked = parseRawRequest('GET /orders HTTP/1.1\r\nHost: a.example\r\nTransfer-Encoding: chunked\r\n\r\n\r\n');
+
+		expect(get.body).toEqual(new Uint8Array());
+		expect(post.body).toEqual(new TextEncoder().encode('\r\n'));
+		expect(chunked.body).toEqual(new TextEncoder().encode('\r\n'));
+	});
+});
@@ -0,0 +1,216 @@
+/**
+ * Test Suite for the KV-backed key registry and its admin API.
+ *
+ * Runs against Miniflare's local KV namespace (bound as KEYS in vitest.config.mts).
+ */
+
+import { createExecutionContext, env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { createSigner, ED25519_ALT_PRIVATE_KEY, ED25519_ALT_PUBLIC_KEY, ED25519_PRIVATE_KEY, ED25519_PUBLIC_KEY, signRequest, singleLinePem } from './helpers';
+
+const ADMIN_TOKEN = 'test-admin-token';
+
+/**
+ * Registry-only environment: header keys disabled, admin API enabled.
+ */
+function createRegistryEnv(overrides: Partial<Env> = {}): Env {
+	return { ...env, ADMIN_TOKEN, ALLOW_HEADER_KEYS: 'false', ...overrides } as Env;
+}
+
+async function admin(method: string, path: string, body?: unknown, token = ADMIN_TOKEN): Promise<Response> {
+	const request = new Request(`http://localhost:8787${path}`, {
+		method,
+		headers: { Authorization: `Bearer ${token}`, 'content-type': 'application/json' },
+		body: body === undefined ? undefined : JSON.stringify(body),
+	});
+	return worker.fetch(request, createRegistryEnv(), createExecutionContext());
+}
+
+async function verifyWith(privateKey: string, keyid: string, alg: 'ed25519' = 'ed25519'): Promise<any> {
+	const request = await signRequest(new Request('http://localhost:8787/verify', { method: 'POST', body: 'test' }), createSigner(privateKey, alg, keyid));
+	const response = await worker.fetch(request, createRegistryEnv(), createExecutionContext());
+	return { status: response.status, ...((await response.json()) as any) };
+}
+
+describe('Key Registry - Admin API', () => {
+	it('should reject requests without a valid bearer token', async () => {
+		const response = await admin('GET', '/admin/keys', undefined, 'wrong-token');
+
+		expect(response.status).toBe(401);
+		expect(response.headers.get('WWW-Authenticate')).toBe('Bearer');
+	});
+
+	it('should be disabled when ADMIN_TOKEN is not configured', async () => {
+		const request = new Request('http://localhost:8787/admin/keys', { headers: { Authorization: 'Bearer anything' } });
+		const response = await worker.fetch(request, createRegistryEnv({ ADMIN_TOKEN: undefined }), createExecutionContext());
+
+		expect(response.status).toBe(503);
+	});
+
+	it('should register, fetch and list keys without exposing key material in listings', async () => {
+		const registered = await admin('POST', '/admin/keys', { keyid: 'list-key', publicKey: ED25519_PUBLIC_KEY, algorithms: ['ed25519'] });
+		expect(registered.status).toBe(201);
+
+		const fetched = (await (await admin('GET', '/admin/keys/list-key')).json()) as any;
+		expect(fetched.publicKey).toBe(ED25519_PUBLIC_KEY);
+		expect(fetched.algorithms).toEqual(['ed25519']);
+
+		const listed = (await (await admin('GET', '/admin/keys')).json()) as any;
+		const entry = listed.keys.find((key: any) => key.keyid === 'list-key');
+		expect(entry).toEqual({ keyid: 'list-key', algorithms: ['ed25519'], status: 'active' });
+	});
+
+	it('should keep listing metadata small however many components a key requires', async () => {
+		const components = Array.from({ length: 64 }, (_, index) => `x-long-header-name-for-component-number-${index}`);
+		const registered = await admin('POST', '/admin/keys', { keyid: 'wide-key', publicKey: ED25519_PUBLIC_KEY, required: { components } });
+		await admin('DELETE', '/admin/keys/wide-key');
+
+		const listed = (await (await admin('GET', '/admin/keys')).json()) as any;
+		expect(registered.status).toBe(201);
+		expect(listed.keys.find((key: any) => key.keyid === 'wide-key')).toEqual({ keyid: 'wide-key', algorithms: [], status: 'revoked' });
+	});
+
+	it('should refuse to register the same keyid twice', async () => {
+		await admin('POST', '/admin/keys', { keyid: 'dup-key', publicKey: ED25519_PUBLIC_KEY });
+		const response = await admin('POST', '/admin/keys', { keyid: 'dup-key', publicKey: ED25519_ALT_PUBLIC_KEY });
+
+		expect(response.status).toBe(409);
+	});
+
+	it('should reject invalid key material and unsupported algorithms', async () => {
+		const badKey = await admin('POST', '/admin/keys', { keyid: 'bad-key', publicKey: '-----BEGIN PUBLIC KEY----- INVALID -----END PUBLIC KEY-----' });
+		const badAlg = await admin('POST', '/admin/keys', { keyid: 'bad-alg', publicKey: ED25519_PUBLIC_KEY, algorithms: ['rsa-sha1'] });
+		const inherited = await admin('POST', '/admin/keys', { keyid: 'inherited-alg', publicKey: ED25519_PUBLIC_KEY, algorithms: ['constructor'] });
+
+		expect(badKey.status).toBe(400);
+		expect(((await badKey.json()) as any).error).toContain('Failed to parse public key');
+		expect(badAlg.status).toBe(400);
+		expect(((await badAlg.json()) as any).error).toContain('rsa-sha1');
+		expect(inherited.status).toBe(400);
+		expect(((await inherited.json()) as any).error).toBe('Unsupported algorithms: constructor');
+	});
+
+	it('should reject registrations of the wrong shape', async () => {
+		const key = { keyid: 'shape-key', publicKey: ED25519_PUBLIC_KEY };
+
+		const algorithms = await admin('POST', '/admin/keys', { ...key, algorithms: 'ed25519' });
+		const parameters = await admin('POST', '/admin/keys', { ...key, required: { parameters: 'created' } });
+		const publicKey = await admin('POST', '/admin/keys', { ...key, publicKey: 5 });
+
+		expect(algorithms.status).toBe(400);
+		expect(((await algorithms.json()) as any).error).toBe('algorithms must be an array of algorithm names');
+		expect(parameters.status).toBe(400);
+		expect(((await parameters.json()) as any).error).toBe('required.parameters must be an array of parameter names');
+		expect(publicKey.status).toBe(400);
+		expect(((await publicKey.json()) as any).error).toBe('publicKey must be a PEM string');
+	});
+
+	it('should reject registrations that are too large', async () => {
+		const key = { keyid: 'large-key', publicKey: ED25519_PUBLIC_KEY };
+
+		const keyid = await admin('POST', '/admin/keys', { ...key, keyid: 'k'.repeat(257) });
+		const components = await admin('POST', '/admin/keys', { ...key, required: { components: new Array(65).fill('@method') } });
+		const algorithms = await admin('POST', '/admin/keys', { ...key, algorithms: new Array(50).fill('ed25519') });
+
+		expect(keyid.status).toBe(400);
+		expect(((await keyid.json()) as any).error).toBe('keyid must be at most 256 bytes');
+		expect(components.status).toBe(400);
+		expect(((await components.json()) as any).error).toBe('required.components must list at most 64 components');
+		expect(algorithms.status).toBe(400);
+		expect(((await algorithms.json()) as any).error).toMatch(/^algorithms must list at most \d+ algorithms$/);
+	});
+
+	it('should route /admin without a trailing slash to the admin API', async () => {
+		const unauthorized = await admin('GET', '/admin', undefined, 'wrong-token');
+		const response = await admin('GET', '/admin');
+
+		expect(unauthorized.status).toBe(401);
+		expect(response.status).toBe(404);
+		expect(((await response.json()) as any).error).toBe('Not found');
+	});
+
+	it('should reject malformed percent-encoding in the keyid', async () => {
+		const response = await admin('GET', '/admin/keys/%E0%A4%A');
+
+		expect(response.status).toBe(400);
+		expect(((await response.json()) as any).error).toBe('Malformed percent-encoding in path');
+	});
+});
+
+describe('Key Registry - Verification', () => {
+	it('should verify a signature against a registered key', async () => {
+		await admin('POST', '/admin/keys', { keyid: 'verify-key', publicKey: ED25519_PUBLIC_KEY });
+
+		const result = await verifyWith(ED25519_PRIVATE_KEY, 'verify-key');
+
+		expect(result.status).toBe(200);
+		expect(result.verified).toBe(true);
+		expect(result).not.toHaveProperty('pemKey');
+	});
+
+	it('should reject an unknown keyid', async () => {
+		const result = await verifyWith(ED25519_PRIVATE_KEY, 'never-registered');
+
+		expect(result.verified).toBe(false);
+		expect(result.error).toBe('Unknown key: never-registered');
+	});
+
+	it('should reject a revoked key', async () => {
+		await admin('POST', '/admin/keys', { keyid: 'revoked-key', publicKey: ED25519_PUBLIC_KEY });
+		const revoked = await admin('DELETE', '/admin/keys/revoked-key');
+		expect(((await revoked.json()) as any).revokedAt).toBeTypeOf('number');
+
+		const result = await verifyWith(ED25519_PRIVATE_KEY, 'revoked-key');
+
+		expect(result.verified).toBe(false);
+		expect(result.error).toBe('Key revoked: revoked-key');
+	});
+
+	it('should reject an expired key', async () => {
+		await admin('POST', '/admin/keys', { keyid: 'expired-key', publicKey: ED25519_PUBLIC_KEY, expiresAt: 1_000_000_000 });
+
+		const result = await verifyWith(ED25519_PRIVATE_KEY, 'expired-key');
+
+		expect(result.verified).toBe(false);
+		expect(result.error).toBe('Key expired: expired-key');
+	});
+
+	it('should reject algorithms the key was not registered for', async () => {
+		await admin('POST', '/admin/keys', { keyid: 'pinned-key', publicKey: ED25519_PUBLIC_KEY, algorithms: ['ecdsa-p256-sha256'] });
+
+		const result = await verifyWith(ED25519_PRIVATE_KEY, 'pinned-key');
+
+		expect(result.verified).toBe(false);
+		expect(result.error).toContain('not allowed for key pinned-key');
+	});
+
+	it('should only accept the new key material after rotation', async () => {
+		await admin('POST', '/admin/keys', { keyid: 'rotating-key', publicKey: ED25519_PUBLIC_KEY });
+		const rotated = await admin('POST', '/admin/keys/rotating-key/rotate', { publicKey: ED25519_ALT_PUBLIC_KEY });
+		expect(rotated.status).toBe(200);
+
+		const oldKey = await verifyWith(ED25519_PRIVATE_KEY, 'rotating-key');
+		const newKey = await verifyWith(ED25519_ALT_PRIVATE_KEY, 'rotating-key');
+
+		expect(oldKey.verified).toBe(false);
+		expect(oldKey.error).toBe('Invalid signature');
+		expect(newKey.verified).toBe(true);
+	});
+
+	it('should ignore x-public-key-pem when header keys are disabled', async () => {
+		const request = await signRequest(
+			new Request('http://localhost:8787/verify', {
+				method: 'POST',
+				headers: { 'x-public-key-pem': singleLinePem(ED25519_PUBLIC_KEY) },
+			}),
+			createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'unregistered-key')
+		);
+
+		const response = await worker.fetch(request, createRegistryEnv(), createExecutionContext());
+		const data = (await response.json()) as any;
+
+		expect(data.verified).toBe(false);
+		expect(data.error).toBe('Unknown key: unregistered-key');
+	});
+});
@@ -0,0 +1,142 @@
+/**
+ * Test Suite for response signatures (`@status`, `;req` components) and
+ * POST /verify/response.
+ */
+
+import { createExecutionContext, env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { verifySignature } from '../src/verification';
+import { createSigner, ED25519_PRIVATE_KEY, ED25519_PUBLIC_KEY, P256_PUBLIC_KEY, reqComponent, signResponse } from './helpers';
+
+const signer = createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'test-key-ed25519');
+
+function createRequest(path = '/orders'): Request {
+	return new Request(`https://example.com${path}`, {
+		method: 'POST',
+		headers: { 'content-type': 'application/json' },
+		body: '{"item": 1}',
+	});
+}
+
+function createResponse(status = 201): Response {
+	return new Response('{"id": 42}', { status, headers: { 'content-type': 'application/json' } });
+}
+
+/**
+ * The response as a /verify/response description.
+ */
+async function responseDescription(response: Response): Promise<object> {
+	return { status: response.status, headers: Object.fromEntries(response.headers), body: await response.text() };
+}
+
+async function verifyResponse(body: object, testEnv: Partial<Env> = {}): Promise<any> {
+	const request = new Request('http://localhost:8787/verify/response', { method: 'POST', body: JSON.stringify(body) });
+	const response = await worker.fetch(request, { ...env, ALLOW_HEADER_KEYS: 'true', ...testEnv } as Env, createExecutionContext());
+	return { status: response.status, challenge: response.headers.get('Accept-Signature'), ...((await response.json()) as any) };
+}
+
+describe('Responses - verifySignature', () => {
+	it('should verify @status and components of the originating request', async () => {
+		const request = createRequest();
+		const response = await signResponse(createResponse(), request, signer, {
+			components: ['@status', 'content-type', reqComponent('@method'), reqComponent('@authority'), reqComponent('@path')],
+		});
+
+		const result = await verifySignature({ response, request }, ED25519_PUBLIC_KEY);
+
+		expect(result.verified).toBe(true);
+		expect(result.components).toEqual(['@status', 'content-type', '@method', '@authority', '@path']);
+	});
+
+	it('should reject a response bound to another request', async () => {
+		const response = await signResponse(createResponse(), createRequest('/orders'), signer);
+
+		const result = await verifySignature({ response, request: createRequest('/refunds') }, ED25519_PUBLIC_KEY);
+
+		expect(result.code).toBe('invalid_signature');
+	});
+
+	it('should reject a changed status', async () => {
+		const request = createRequest();
+		const signed = await signResponse(createResponse(201), request, signer);
+		const response = new Response(null, { status: 500, headers: signed.headers });
+
+		const result = await verifySignature({ response, request }, ED25519_PUBLIC_KEY);
+
+		expect(result.code).toBe('invalid_signature');
+	});
+
+	it('should need the originating request for ;req components', async () => {
+		const response = await signResponse(createResponse(), createRequest(), signer);
+
+		const result = await verifySignature({ response }, ED25519_PUBLIC_KEY);
+
+		expect(result.code).toBe('malformed_signature_input');
+		expect(result.error).toContain('`req` component parameter');
+	});
+
+	it('should check the request body against a Content-Digest covered with ;req', async () => {
+		const request = new Request('https://example.com/orders', {
+			method: 'POST',
+			headers: { 'content-digest': 'sha-256=:X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE=:' },
+			body: '{"hello": "world"}',
+		});
+		const response = await signResponse(createResponse(), request, signer, { components: ['@status', reqComponent('content-digest')] });
+		const tampered = new Request(request.url, { method: 'POST', headers: request.headers, body: '{"hello": "there"}' });
+
+		expect((await verifySignature({ response, request }, ED25519_PUBLIC_KEY)).verified).toBe(true);
+		expect((await verifySignature({ response, request: tampered }, ED25519_PUBLIC_KEY)).code).toBe('content_digest_mismatch');
+	});
+});
+
+describe('Responses - POST /verify/response', () => {
+	it('should verify a described response and request', async () => {
+		const request = createRequest();
+		const response = await signResponse(createResponse(), request, signer);
+
+		const data = await verifyResponse({
+			response: await responseDescription(response),
+			request: { method: 'POST', url: 'https://example.com/orders', headers: { 'content-type': 'application/json' }, body: '{"item": 1}' },
+			publicKey: ED25519_PUBLIC_KEY,
+		});
+
+		expect(data.status).toBe(200);
+		expect(data.verified).toBe(true);
+		expect(data.signatures[0]).toMatchObject({ label: 'sig1', keyid: 'test-key-ed25519', components: ['@status', '@method', '@path'] });
+	});
+
+	it('should verify the RFC 9421 B.2.4 response signature from raw HTTP', async () => {
+		const rawResponse = [
+			'HTTP/1.1 200 OK',
+			'Date: Tue, 20 Apr 2021 02:07:56 GMT',
+			'Content-Type: application/json',
+			'Content-Digest: sha-512=:mEWXIS7MaLRuGgxOBdODa3xqM1XdEvxoYhvlCFJ41QJgJc4GTsPp29l5oGX69wWdXymyU0rjJuahq4l5aGgfLQ==:',
+			'Content-Length: 23',
+			'Signature-Input: sig-b24=("@status" "content-type" "content-digest" "content-length");created=1618884473;keyid="test-key-ecc-p256"',
+			'Signature: sig-b24=:wNmSUAhwb5LxtOtOpNa6W5xj067m5hFrj0XQ4fvpaCLx0NKocgPquLgyahnzDnDAUy5eCdlYUEkLIj+32oiasw==:',
+			'',
+			'{"message": "good dog"}',
+		].join('\r\n');
+
+		const data = await verifyResponse({ rawResponse, publicKey: P256_PUBLIC_KEY }, { INFER_ALGORITHM: 'true' });
+
+		expect(data.verified).toBe(true);
+		expect(data.signatures[0].alg).toBe('ecdsa-p256-sha256');
+	});
+
+	it('should report an unsigned response without a challenge', async () => {
+		const data = await verifyResponse({ response: { status: 200, body: 'hello' }, publicKey: ED25519_PUBLIC_KEY });
+
+		expect(data.status).toBe(400);
+		expect(data.code).toBe('missing_signature_input');
+		expect(data.challenge).toBeNull();
+	});
+
+	it('should reject a malformed response description', async () => {
+		const data = await verifyResponse({ rawResponse: 'HTTP/2 200', publicKey: ED25519_PUBLIC_KEY });
+
+		expect(data.status).toBe(400);
+		expect(data.error).toBe('Malformed status line: HTTP/2 200');
+	});
+});
@@ -0,0 +1,177 @@
+/**
+ * Test Suite for the POST /sign endpoint.
+ *
+ * Signatures produced by /sign are fed back into the verifier, so these
+ * tests also check that signing and verification agree.
+ */
+
+import { createExecutionContext, env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { P384_PRIVATE_KEY, RSA_PRIVATE_KEY, singleLinePem } from './helpers';
+
+const RFC_SHARED_SECRET = 'uzvJfB4u3N0Jy4T7NZ75MDVcr8zSTInedJtkgcu46YW4XByzNJjxBdtjUkdJPBtbmHhIDi6pcl8jsasjlTMtDQ==';
+
+const described = {
+	method: 'POST',
+	url: 'https://example.com/foo?param=Value&Pet=dog',
+	headers: { 'content-type': 'application/json' },
+	body: '{"hello": "world"}',
+};
+
+async function fetchJson(request: Request, testEnv: Partial<Env> = {}): Promise<any> {
+	const response = await worker.fetch(request, { ...env, ALLOW_HEADER_KEYS: 'true', ...testEnv } as Env, createExecutionContext());
+	return { status: response.status, ...((await response.json()) as any) };
+}
+
+async function sign(body: unknown, testEnv: Partial<Env> = {}): Promise<any> {
+	const request = new Request('http://localhost:8787/sign', {
+		method: 'POST',
+		headers: { 'content-type': 'application/json' },
+		body: JSON.stringify(body),
+	});
+	return fetchJson(request, testEnv);
+}
+
+/**
+ * Send the described request with the headers returned by /sign to the verifier.
+ */
+async function verifySigned(signed: any, keyHeaders: Record<string, string>): Promise<any> {
+	const request = new Request(described.url, {
+		method: described.method,
+		headers: {
+			...described.headers,
+			...keyHeaders,
+			Signature: signed.Signature,
+			'Signature-Input': signed['Signature-Input'],
+			...(signed['Content-Digest'] ? { 'Content-Digest': signed['Content-Digest'] } : {}),
+		},
+		body: described.body,
+	});
+	return fetchJson(request);
+}
+
+describe('Signing - Server-Held Test Keys', () => {
+	it('should sign with the RFC 9421 test-key-ed25519 and verify', async () => {
+		const signed = await sign({
+			request: described,
+			components: ['@method', '@path', '@authority', 'content-type'],
+			parameters: { created: 1618884473 },
+			label: 'sig-b26',
+			testKey: 'test-key-ed25519',
+		});
+
+		expect(signed.status).toBe(200);
+		expect(signed['Signature-Input']).toBe(
+			'sig-b26=("@method" "@path" "@authority" "content-type");created=1618884473;keyid="test-key-ed25519";alg="ed25519"'
+		);
+		expect(signed.signatureBase).toBe(
+			[
+				'"@method": POST',
+				'"@path": /foo',
+				'"@authority": example.com',
+				'"content-type": application/json',
+				'"@signature-params": ("@method" "@path" "@authority" "content-type");created=1618884473;keyid="test-key-ed25519";alg="ed25519"',
+			].join('\n')
+		);
+
+		const verified = await verifySigned(signed, { 'x-public-key-pem': singleLinePem(signed.publicKey) });
+		expect(verified.verified).toBe(true);
+	});
+
+	it('should sign with the RFC 9421 test-shared-secret and verify', async () => {
+		const signed = await sign({ request: described, testKey: 'test-shared-secret' });
+
+		expect(signed.publicKey).toBeUndefined();
+		const verified = await verifySigned(signed, { 'x-hmac-secret': RFC_SHARED_SECRET });
+		expect(verified.verified).toBe(true);
+	});
+
+	it('should reject an unknown test key', async () => {
+		const signed = await sign({ request: described, testKey: 'test-key-rsa' });
+
+		expect(signed.status).toBe(400);
+		expect(signed.error).toMatch(/^Unknown test key: test-key-rsa \(available: /);
+	});
+});
+
+describe('Signing - Caller Keys', () => {
+	it('should infer the algorithm of an ECDSA private key', async () => {
+		const signed = await sign({ request: described, parameters: { keyid: 'p384-key' }, privateKey: singleLinePem(P384_PRIVATE_KEY) });
+
+		expect(signed['Signature-Input']).toContain(';keyid="p384-key";alg="ecdsa-p384-sha384"');
+		const verified = await verifySigned(signed, { 'x-public-key-pem': singleLinePem(signed.publicKey) });
+		expect(verified.verified).toBe(true);
+	});
+
+	it('should sign with RSA-PSS when parameters.alg selects it', async () => {
+		const signed = await sign({
+			request: described,
+			parameters: { keyid: 'rsa-key', alg: 'rsa-pss-sha512' },
+			privateKey: RSA_PRIVATE_KEY,
+		});
+
+		const verified = await verifySigned(signed, { 'x-public-key-pem': singleLinePem(signed.publicKey) });
+		expect(verified.verified).toBe(true);
+		expect(verified.signatures[0].alg).toBe('rsa-pss-sha512');
+	});
+
+	it('should require parameters.alg for RSA keys', async () => {
+		const signed = await sign({ request: described, parameters: { keyid: 'rsa-key' }, privateKey: RSA_PRIVATE_KEY });
+
+		expect(signed.status).toBe(400);
+		expect(signed.error).toBe('RSA keys need parameters.alg (rsa-pss-sha512 or rsa-v1_5-sha256)');
+	});
+
+	it('should require exactly one key source', async () => {
+		const signed = await sign({ request: described, testKey: 'test-key-ed25519', hmacSecret: RFC_SHARED_SECRET });
+
+		expect(signed.error).toBe('Provide exactly one of privateKey, hmacSecret or testKey');
+	});
+});
+
+describe('Signing - Parameters', () => {
+	it('should copy created, expires, nonce and tag into Signature-Input', async () => {
+		const parameters = { created: 1618884473, expires: 1618884773, nonce: 'abc123', tag: 'app-123' };
+
+		const signed = await sign({ request: described, components: ['@method'], parameters, testKey: 'test-key-ed25519' });
+
+		expect(signed['Signature-Input']).toBe(
+			'sig1=("@method");created=1618884473;keyid="test-key-ed25519";alg="ed25519";expires=1618884773;nonce="abc123";tag="app-123"'
+		);
+	});
+
+	it('should reject parameters that would override the signer, components or label', async () => {
+		const signer = await sign({ request: described, parameters: { signer: {} }, testKey: 'test-key-ed25519' });
+		const components = await sign({ request: described, parameters: { components: ['@path'] }, testKey: 'test-key-ed25519' });
+		const created = await sign({ request: described, parameters: { created: 'yesterday' }, testKey: 'test-key-ed25519' });
+
+		expect(signer.status).toBe(400);
+		expect(signer.error).toBe('Unsupported signature parameter: signer (use created, expires, nonce, tag, keyid or alg)');
+		expect(components.status).toBe(400);
+		expect(components.error).toMatch(/^Unsupported signature parameter: components /);
+		expect(created.status).toBe(400);
+		expect(created.error).toBe('parameters.created must be an integer (seconds since the epoch)');
+	});
+});
+
+describe('Signing - Content-Digest', () => {
+	it('should compute a covered Content-Digest from the body', async () => {
+		const signed = await sign({ request: described, components: ['@method', 'content-digest'], testKey: 'test-key-ed25519' });
+
+		expect(signed['Content-Digest']).toBe(
+			'sha-512=:WZDPaVn/7XgHaAy8pmojAkGWoRx2UFChF41A2svX+TaPm+AbwAgBWnrIiYllu7BNNyealdVLvRwEmTHWXvJwew==:'
+		);
+		const verified = await verifySigned(signed, { 'x-public-key-pem': singleLinePem(signed.publicKey) });
+		expect(verified.verified).toBe(true);
+	});
+});
+
+describe('Signing - Availability', () => {
+	it('should be disabled without ALLOW_HEADER_KEYS', async () => {
+		const signed = await sign({ request: described, testKey: 'test-key-ed25519' }, { ALLOW_HEADER_KEYS: 'false' });
+
+		expect(signed.status).toBe(403);
+		expect(signed.error).toBe('Signing disabled');
+	});
+});
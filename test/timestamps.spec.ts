@@ -0,0 +1,116 @@
+/**
+ * Test Suite for created / expires enforcement.
+ *
+ * Policy comes from the SIGNATURE_CLOCK_SKEW and SIGNATURE_MAX_AGE Env vars
+ * (see src/policy.ts); each rejection carries a distinct error code.
+ */
+
+import { createExecutionContext, env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { createSigner, ED25519_PRIVATE_KEY, ED25519_PUBLIC_KEY, signRequest, singleLinePem } from './helpers';
+
+const signer = createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'test-key-ed25519');
+
+function now(): number {
+	return Math.floor(Date.now() / 1000);
+}
+
+function createRequest(): Request {
+	return new Request('http://localhost:8787/verify', {
+		method: 'POST',
+		headers: { 'x-public-key-pem': singleLinePem(ED25519_PUBLIC_KEY) },
+	});
+}
+
+async function fetchJson(request: Request, testEnv: Partial<Env> = {}): Promise<any> {
+	const response = await worker.fetch(request, { ...env, ALLOW_HEADER_KEYS: 'true', ...testEnv } as Env, createExecutionContext());
+	return { status: response.status, ...((await response.json()) as any) };
+}
+
+describe('Timestamps - expires', () => {
+	it('should reject a signature whose expires is in the past', async () => {
+		const request = await signRequest(createRequest(), signer, { created: now() - 120, expires: now() - 60 });
+
+		const data = await fetchJson(request);
+
+		expect(data.status).toBe(400);
+		expect(data.verified).toBe(false);
+		expect(data.code).toBe('signature_expired');
+	});
+
+	it('should accept a signature that has not expired yet', async () => {
+		const request = await signRequest(createRequest(), signer, { expires: now() + 60 });
+
+		const data = await fetchJson(request);
+
+		expect(data.verified).toBe(true);
+	});
+});
+
+describe('Timestamps - created', () => {
+	it('should reject a signature created further in the future than the clock skew', async () => {
+		const request = await signRequest(createRequest(), signer, { created: now() + 600 });
+
+		const data = await fetchJson(request);
+
+		expect(data.verified).toBe(false);
+		expect(data.code).toBe('signature_not_yet_valid');
+		expect(data.error).toContain('allowed clock skew 60s');
+	});
+
+	it('should tolerate a created timestamp within the clock skew', async () => {
+		const request = await signRequest(createRequest(), signer, { created: now() + 30 });
+
+		const data = await fetchJson(request);
+
+		expect(data.verified).toBe(true);
+	});
+
+	it('should use SIGNATURE_CLOCK_SKEW from the environment', async () => {
+		const request = await signRequest(createRequest(), signer, { created: now() + 30 });
+
+		const data = await fetchJson(request, { SIGNATURE_CLOCK_SKEW: '0' });
+
+		expect(data.verified).toBe(false);
+		expect(data.code).toBe('signature_not_yet_valid');
+	});
+
+	it('should accept old signatures when no maximum age is configured', async () => {
+		const request = await signRequest(createRequest(), signer, { created: 1618884473 });
+
+		const data = await fetchJson(request);
+
+		expect(data.verified).toBe(true);
+	});
+});
+
+describe('Timestamps - SIGNATURE_MAX_AGE', () => {
+	it('should reject a signature older than the maximum age', async () => {
+		const request = await signRequest(createRequest(), signer, { created: now() - 3600 });
+
+		const data = await fetchJson(request, { SIGNATURE_MAX_AGE: '300' });
+
+		expect(data.verified).toBe(false);
+		expect(data.code).toBe('signature_too_old');
+	});
+
+	it('should accept a signature within the maximum age', async () => {
+		const request = await signRequest(createRequest(), signer, { created: now() - 120 });
+
+		const data = await fetchJson(request, { SIGNATURE_MAX_AGE: '300' });
+
+		expect(data.verified).toBe(true);
+	});
+
+	it('should reject a signature without created when a maximum age is configured', async () => {
+		const request = createRequest();
+		request.headers.set('Signature-Input', 'sig1=("@method" "@path");keyid="test-key-ed25519";alg="ed25519"');
+		request.headers.set('Signature', 'sig1=:dGVzdA==:');
+
+		const data = await fetchJson(request, { SIGNATURE_MAX_AGE: '300' });
+
+		expect(data.verified).toBe(false);
+		expect(data.code).toBe('missing_created');
+	});
+});
@@ -0,0 +1,157 @@
+/**
+ * Test Suite for the web UI (GET /) and the POST /verify/message route behind it.
+ */
+
+import { createExecutionContext, env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { parseRawRequest } from '../src/messages';
+import { createSigner, ED25519_ALT_PUBLIC_KEY, ED25519_PRIVATE_KEY, ED25519_PUBLIC_KEY, signRequest, singleLinePem } from './helpers';
+
+const signer = createSigner(ED25519_PRIVATE_KEY, 'ed25519', 'test-key-ed25519');
+
+function fetchWorker(request: Request, testEnv: Partial<Env> = {}): Promise<Response> {
+	return worker.fetch(request, { ...env, ALLOW_HEADER_KEYS: 'true', ...testEnv } as Env, createExecutionContext());
+}
+
+async function verifyMessage(body: unknown, query = ''): Promise<any> {
+	const request = new Request(`http://localhost:8787/verify/message${query}`, {
+		method: 'POST',
+		headers: { 'content-type': 'application/json' },
+		body: JSON.stringify(body),
+	});
+	const response = await fetchWorker(request);
+	return { status: response.status, ...((await response.json()) as any) };
+}
+
+/**
+ * Sign a request for a different origin and serialize it as raw HTTP/1.1,
+ * as it would appear in a log.
+ */
+async function signedRawRequest(): Promise<string> {
+	const request = await signRequest(
+		new Request('https://api.example.com/orders?id=42', {
+			method: 'POST',
+			headers: { 'content-type': 'application/json' },
+			body: '{"hello": "world"}',
+		}),
+		signer,
+		{ components: ['@method', '@target-uri', '@authority', 'content-type'] }
+	);
+
+	return [
+		'POST /orders?id=42 HTTP/1.1',
+		'Host: api.example.com',
+		'Content-Type: application/json',
+		`Signature-Input: ${request.headers.get('Signature-Input')}`,
+		`Signature: ${request.headers.get('Signature')}`,
+		'',
+		'{"hello": "world"}',
+	].join('\r\n');
+}
+
+describe('UI - GET /', () => {
+	it('should serve the HTML page', async () => {
+		const response = await fetchWorker(new Request('http://localhost:8787/'));
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get('content-type')).toBe('text/html; charset=utf-8');
+		expect(await response.text()).toContain('<form id="verify-form">');
+	});
+
+	it('should still verify signed GET requests to /', async () => {
+		const request = await signRequest(
+			new Request('http://localhost:8787/', { headers: { 'x-public-key-pem': singleLinePem(ED25519_PUBLIC_KEY) } }),
+			signer
+		);
+
+		const response = await fetchWorker(request);
+
+		expect(((await response.json()) as any).verified).toBe(true);
+	});
+});
+
+describe('UI - POST /verify/message', () => {
+	it('should verify a raw HTTP/1.1 request against its original authority', async () => {
+		const data = await verifyMessage({ raw: await signedRawRequest(), publicKey: ED25519_PUBLIC_KEY }, '?debug=true');
+
+		expect(data.verified).toBe(true);
+		expect(data.signatures[0].debug.components['"@target-uri"']).toBe('https://api.example.com/orders?id=42');
+	});
+
+	it('should verify a structured request description', async () => {
+		const signed = await signRequest(new Request('https://api.example.com/items', { method: 'DELETE' }), signer);
+
+		const data = await verifyMessage({
+			request: { method: 'DELETE', url: 'https://api.example.com/items', headers: Object.fromEntries(signed.headers) },
+			publicKey: ED25519_PUBLIC_KEY,
+		});
+
+		expect(data.verified).toBe(true);
+	});
+
+	it('should report verification failures like the live verifier', async () => {
+		const data = await verifyMessage({ raw: await signedRawRequest(), publicKey: ED25519_ALT_PUBLIC_KEY });
+
+		expect(data.status).toBe(400);
+		expect(data.error).toBe('Invalid signature');
+	});
+
+	it('should ignore client keys without ALLOW_HEADER_KEYS and look up server-side keys', async () => {
+		const request = new Request('http://localhost:8787/verify/message', {
+			method: 'POST',
+			body: JSON.stringify({ raw: await signedRawRequest(), publicKey: ED25519_PUBLIC_KEY }),
+		});
+
+		const response = await fetchWorker(request, { ALLOW_HEADER_KEYS: 'false' });
+
+		expect(response.status).toBe(400);
+		expect(((await response.json()) as any).error).toBe('Unknown key: test-key-ed25519');
+	});
+
+	it('should reject a malformed raw request', async () => {
+		const data = await verifyMessage({ raw: 'hello world', publicKey: ED25519_PUBLIC_KEY });
+
+		expect(data.status).toBe(400);
+		expect(data.error).toBe('Malformed request line: hello world');
+	});
+
+	it('should reject keys that are neither text nor an object', async () => {
+		const raw = await signedRawRequest();
+
+		expect(await verifyMessage({ raw, publicKey: 5 })).toEqual({
+			status: 400,
+			error: 'publicKey must be PEM text or a JWK / JWKS object',
+			code: 'key_parse_error',
+		});
+		expect(await verifyMessage({ raw, hmacSecret: true })).toEqual({
+			status: 400,
+			error: 'hmacSecret must be a base64 string',
+			code: 'key_parse_error',
+		});
+	});
+});
+
+describe('UI - parseRawRequest', () => {
+	it('should resolve origin-form targets against the Host header', () => {
+		const message = parseRawRequest('GET /a?b=c HTTP/1.1\nHost: example.com:8443\nAccept: */*\n\n');
+
+		expect(message).toEqual({
+			method: 'GET',
+			url: 'https://example.com:8443/a?b=c',
+			headers: [
+				['Host', 'example.com:8443'],
+				['Accept', '*/*'],
+			],
+			body: new Uint8Array(),
+		});
+	});
+
+	it('should keep absolute-form targets', () => {
+		expect(parseRawRequest('GET http://proxy.example/a HTTP/1.1\r\nHost: other.example\r\n\r\n').url).toBe('http://proxy.example/a');
+	});
+
+	it('should require a Host header for origin-form targets', () => {
+		expect(() => parseRawRequest('GET /a HTTP/1.1\n\n')).toThrow('Missing Host header');
+	});
+});
@@ -7,6 +7,8 @@ export default defineWorkersConfig({
 				wrangler: { configPath: './wrangler.jsonc' },
 				miniflare: {
 					compatibilityFlags: ['nodejs_compat'],
+					kvNamespaces: ['KEYS'],
+					d1Databases: ['AUDIT_DB'],
 				},
 			},
 		},
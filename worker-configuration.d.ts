@@ -6,6 +6,10 @@ declare namespace Cloudflare {
 		mainModule: typeof import("./src/index");
 	}
 	interface Env {
+		ALLOW_HEADER_KEYS: string;
+		SIGNATURE_CLOCK_SKEW: string;
+		NONCES: DurableObjectNamespace<import("./src/index").NonceStore>;
+		RATE_LIMITER: DurableObjectNamespace<import("./src/index").RateLimiter>;
 	}
 }
 interface Env extends Cloudflare.Env {}